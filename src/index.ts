@@ -4,6 +4,9 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { config } from 'dotenv';
 import { MailTools } from './tools/mail-tools.js';
+import { MailResources } from './tools/mail-resources.js';
+import { MailConfig } from './services/mail-service.js';
+import { loadAccountConfigs } from './services/account-manager.js';
 
 // Parse command line arguments for custom env file
 const args = process.argv.slice(2);
@@ -23,41 +26,36 @@ if (envResult.error) {
   process.exit(1);
 }
 
-// Validate required environment variables
-const requiredVars = [
-  'SMTP_HOST', 'SMTP_PORT', 'SMTP_USER', 'SMTP_PASS',
-  'IMAP_HOST', 'IMAP_PORT', 'IMAP_USER', 'IMAP_PASS'
-];
+// Validate account configuration (SMTP_*/IMAP_* and ACCOUNT_<NAME>_* variables)
+const { accounts, defaultAccount, errors: accountErrors } = loadAccountConfigs();
 
-const missingVars = requiredVars.filter(varName => !process.env[varName]);
-if (missingVars.length > 0) {
-  console.error(`[ERROR] Missing required environment variables: ${missingVars.join(', ')}`);
+accountErrors.forEach(error => console.error(`[ERROR] ${error}`));
+if (accounts.length === 0 || !defaultAccount) {
+  console.error(`[ERROR] No mail account configured`);
+  console.error(`[ERROR] Set SMTP_HOST, SMTP_USER, SMTP_PASS, IMAP_HOST, IMAP_USER and IMAP_PASS (or ACCOUNT_<NAME>_SMTP_HOST and so on for named accounts)`);
   console.error(`[ERROR] Please check your environment file: ${envFile || '.env'}`);
   process.exit(1);
 }
 
 console.error(`[DEBUG] Environment variables loaded successfully`);
-console.error(`[DEBUG] SMTP: ${process.env.SMTP_USER}@${process.env.SMTP_HOST}:${process.env.SMTP_PORT}`);
-console.error(`[DEBUG] IMAP: ${process.env.IMAP_USER}@${process.env.IMAP_HOST}:${process.env.IMAP_PORT}`);
+for (const account of accounts) {
+  console.error(`[DEBUG] Account "${account.name}"${account.name === defaultAccount ? ' (default)' : ''}:`);
+  console.error(`[DEBUG]   SMTP: ${account.config.smtp.auth.user}@${account.config.smtp.host}:${account.config.smtp.port}`);
+  console.error(`[DEBUG]   IMAP: ${account.config.imap.user}@${account.config.imap.host}:${account.config.imap.port}`);
+}
 
-async function main() {
-  console.error('[DEBUG] Initializing MCP server...');
-  
-  // Test SMTP connection first
+async function testSmtpConnection(name: string, config: MailConfig): Promise<void> {
   try {
-    console.error('[DEBUG] Testing SMTP connection...');
+    console.error(`[DEBUG] Testing SMTP connection for "${name}"...`);
     const nodemailer = await import('nodemailer');
     const transporter = nodemailer.createTransport({
-      host: process.env.SMTP_HOST,
-      port: parseInt(process.env.SMTP_PORT || '587'),
-      secure: process.env.SMTP_SECURE === 'true',
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.secure,
       connectionTimeout: 5000,
       greetingTimeout: 5000,
       socketTimeout: 5000,
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS,
-      },
+      auth: config.smtp.auth,
     });
     
     // Add timeout to verify operation
@@ -67,22 +65,23 @@ async function main() {
     );
     
     await Promise.race([verifyPromise, timeoutPromise]);
-    console.error('[DEBUG] SMTP connection successful');
+    console.error(`[DEBUG] SMTP connection successful for "${name}"`);
   } catch (error: any) {
-    console.error('[WARNING] SMTP connection failed:', error?.message || error);
+    console.error(`[WARNING] SMTP connection failed for "${name}":`, error?.message || error);
     console.error('[WARNING] Email sending may not work properly');
   }
+}
 
-  // Test IMAP connection
+async function testImapConnection(name: string, config: MailConfig): Promise<void> {
   try {
-    console.error('[DEBUG] Testing IMAP connection...');
+    console.error(`[DEBUG] Testing IMAP connection for "${name}"...`);
     const IMAP = (await import('imap')).default;
     const imap = new IMAP({
-      user: process.env.IMAP_USER!,
-      password: process.env.IMAP_PASS!,
-      host: process.env.IMAP_HOST,
-      port: parseInt(process.env.IMAP_PORT || '993'),
-      tls: process.env.IMAP_SECURE !== 'false',
+      user: config.imap.user,
+      password: config.imap.password,
+      host: config.imap.host,
+      port: config.imap.port,
+      tls: config.imap.tls,
       connTimeout: 5000,
       authTimeout: 3000,
     });
@@ -94,7 +93,7 @@ async function main() {
       
       imap.once('ready', () => {
         clearTimeout(timeout);
-        console.error('[DEBUG] IMAP connection successful');
+        console.error(`[DEBUG] IMAP connection successful for "${name}"`);
         imap.end();
         resolve(true);
       });
@@ -105,9 +104,20 @@ async function main() {
       imap.connect();
     });
   } catch (error: any) {
-    console.error('[WARNING] IMAP connection failed:', error?.message || error);
+    console.error(`[WARNING] IMAP connection failed for "${name}":`, error?.message || error);
     console.error('[WARNING] Email reading may not work properly');
   }
+}
+
+async function main() {
+  console.error('[DEBUG] Initializing MCP server...');
+  
+  // Test SMTP and IMAP connections for every account
+  for (const account of accounts) {
+    await testSmtpConnection(account.name, account.config);
+    await testImapConnection(account.name, account.config);
+  }
+
   const server = new Server(
     {
       name: 'mcp-mail-organizer',
@@ -116,19 +126,28 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        logging: {},
       },
     }
   );
 
   console.error('[DEBUG] Registering mail tools...');
-  const mailTools = new MailTools();
+  const mailTools = new MailTools({ envFile, accounts, defaultAccount: defaultAccount! });
   await mailTools.registerTools(server);
   console.error('[DEBUG] Mail tools registered successfully');
 
+  const mailResources = new MailResources(mailTools);
+  await mailResources.registerResources(server);
+  console.error('[DEBUG] Mail resources registered successfully');
+
   console.error('[DEBUG] Starting MCP server transport...');
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('[DEBUG] MCP server started and ready!');
+
+  await mailTools.startWatchers();
 }
 
 main().catch((error) => {
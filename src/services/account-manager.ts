@@ -0,0 +1,159 @@
+import path from 'path';
+import { MailService, MailConfig } from './mail-service.js';
+import { MailError } from './mail-errors.js';
+import { DuplicateFinder } from './duplicate-finder.js';
+import { MailIndex } from './mail-index.js';
+import { MailboxStatsService } from './mailbox-stats.js';
+import { OperationJournal } from './operation-journal.js';
+import { RulesEngine } from './rules-service.js';
+import { ThreadService } from './thread-service.js';
+import { UnsubscribeService } from './unsubscribe-service.js';
+
+export interface AccountConfig {
+  name: string;
+  config: MailConfig;
+}
+
+export interface MailAccount extends AccountConfig {
+  mailService: MailService;
+  rulesEngine: RulesEngine;
+  threadService: ThreadService;
+  mailIndex: MailIndex;
+  unsubscribeService: UnsubscribeService;
+  statsService: MailboxStatsService;
+  duplicateFinder: DuplicateFinder;
+}
+
+// Account built from the plain SMTP_* / IMAP_* variables
+export const LEGACY_ACCOUNT_NAME = 'default';
+
+const REQUIRED_KEYS = ['SMTP_HOST', 'SMTP_USER', 'SMTP_PASS', 'IMAP_HOST', 'IMAP_USER', 'IMAP_PASS'];
+const ACCOUNT_VAR_PATTERN = /^ACCOUNT_(.+)_((?:SMTP|IMAP)_(?:HOST|PORT|SECURE|USER|PASS))$/;
+
+function buildMailConfig(get: (key: string) => string | undefined): MailConfig {
+  return {
+    smtp: {
+      host: get('SMTP_HOST')!,
+      port: parseInt(get('SMTP_PORT') || '587'),
+      secure: get('SMTP_SECURE') === 'true',
+      auth: {
+        user: get('SMTP_USER')!,
+        pass: get('SMTP_PASS')!,
+      },
+    },
+    imap: {
+      host: get('IMAP_HOST')!,
+      port: parseInt(get('IMAP_PORT') || '993'),
+      tls: get('IMAP_SECURE') !== 'false',
+      user: get('IMAP_USER')!,
+      password: get('IMAP_PASS')!,
+      poolSize: parseInt(get('IMAP_POOL_SIZE') || '1'),
+    },
+    mailboxes: {
+      drafts: get('DRAFTS_MAILBOX'),
+      sent: get('SENT_MAILBOX'),
+      trash: get('TRASH_MAILBOX'),
+    },
+    saveSentCopy: get('SAVE_SENT_COPY') !== 'false',
+    watchMailboxes: (get('WATCH_MAILBOXES') || '')
+      .split(',')
+      .map(mailbox => mailbox.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Read account definitions from the environment. The plain SMTP_* / IMAP_*
+ * variables define the "default" account; ACCOUNT_<NAME>_SMTP_HOST etc.
+ * define additional named accounts (names are lower-cased). Accounts with
+ * missing variables are reported in `errors` and left out.
+ */
+export function loadAccountConfigs(env: NodeJS.ProcessEnv = process.env): {
+  accounts: AccountConfig[];
+  defaultAccount?: string;
+  errors: string[];
+} {
+  const accounts: AccountConfig[] = [];
+  const errors: string[] = [];
+
+  const addAccount = (name: string, get: (key: string) => string | undefined, prefix: string) => {
+    const missing = REQUIRED_KEYS.filter(key => !get(key));
+    if (missing.length > 0) {
+      errors.push(`Account "${name}" is missing: ${missing.map(key => prefix + key).join(', ')}`);
+      return;
+    }
+    accounts.push({ name, config: buildMailConfig(get) });
+  };
+
+  const legacyKeys = REQUIRED_KEYS.filter(key => env[key]);
+  if (legacyKeys.length > 0) {
+    addAccount(LEGACY_ACCOUNT_NAME, key => env[key], '');
+  }
+
+  const named = new Map<string, string>();
+  for (const key of Object.keys(env)) {
+    const match = key.match(ACCOUNT_VAR_PATTERN);
+    if (match) named.set(match[1].toLowerCase(), match[1]);
+  }
+  for (const [name, rawName] of named) {
+    if (accounts.some(account => account.name === name)) {
+      errors.push(`Account "${name}" is defined more than once`);
+      continue;
+    }
+    const prefix = `ACCOUNT_${rawName}_`;
+    addAccount(name, key => env[prefix + key], prefix);
+  }
+
+  let defaultAccount = env.MAIL_DEFAULT_ACCOUNT?.toLowerCase();
+  if (defaultAccount && !accounts.some(account => account.name === defaultAccount)) {
+    errors.push(`MAIL_DEFAULT_ACCOUNT "${env.MAIL_DEFAULT_ACCOUNT}" does not match any configured account`);
+    defaultAccount = undefined;
+  }
+
+  return {
+    accounts,
+    defaultAccount: defaultAccount || accounts[0]?.name,
+    errors,
+  };
+}
+
+export class AccountManager {
+  private accounts = new Map<string, MailAccount>();
+  private defaultAccount: string;
+
+  constructor(configs: AccountConfig[], defaultAccount: string, rulesFile: string, dataDir: string) {
+    for (const { name, config } of configs) {
+      const journal = new OperationJournal(path.join(dataDir, 'journal', `${name}.json`));
+      const mailService = new MailService(config, journal);
+      this.accounts.set(name, {
+        name,
+        config,
+        mailService,
+        rulesEngine: new RulesEngine(mailService, rulesFile),
+        threadService: new ThreadService(mailService),
+        mailIndex: new MailIndex(mailService, path.join(dataDir, 'index', name)),
+        unsubscribeService: new UnsubscribeService(mailService),
+        statsService: new MailboxStatsService(mailService),
+        duplicateFinder: new DuplicateFinder(mailService),
+      });
+    }
+    this.defaultAccount = defaultAccount;
+  }
+
+  getDefaultName(): string {
+    return this.defaultAccount;
+  }
+
+  get(name?: string): MailAccount {
+    const key = (name || this.defaultAccount).toLowerCase();
+    const account = this.accounts.get(key);
+    if (!account) {
+      throw new MailError('ACCOUNT_NOT_FOUND', `Unknown account "${name}". Available accounts: ${[...this.accounts.keys()].join(', ')}`);
+    }
+    return account;
+  }
+
+  list(): MailAccount[] {
+    return [...this.accounts.values()];
+  }
+}
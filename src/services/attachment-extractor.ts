@@ -0,0 +1,121 @@
+import path from 'path';
+import iconv from 'iconv-lite';
+import { simpleParser, AddressObject, Headers } from 'mailparser';
+import { AttachmentInfo } from './mail-service.js';
+
+const TEXT_CONTENT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/ics',
+  'application/csv',
+  'application/x-yaml',
+  'application/yaml',
+];
+
+const TEXT_EXTENSIONS = ['.txt', '.csv', '.tsv', '.json', '.ics', '.md', '.log', '.xml', '.yaml', '.yml'];
+
+export type AttachmentKind = 'message' | 'text' | 'image' | 'binary';
+
+export function classifyAttachment(att: Pick<AttachmentInfo, 'filename' | 'contentType'>): AttachmentKind {
+  const type = att.contentType.toLowerCase();
+  const ext = path.extname(att.filename).toLowerCase();
+
+  if (type === 'message/rfc822' || ext === '.eml') return 'message';
+  if (type.startsWith('text/') || TEXT_CONTENT_TYPES.includes(type) || TEXT_EXTENSIONS.includes(ext)) {
+    return 'text';
+  }
+  if (type.startsWith('image/')) return 'image';
+  return 'binary';
+}
+
+function addressText(value: AddressObject | AddressObject[] | undefined): string {
+  if (!value) return '';
+  return Array.isArray(value) ? value.map(a => a.text).join(', ') : value.text;
+}
+
+/**
+ * Parse an attached message (.eml / message/rfc822) so its own
+ * attachments can be addressed in turn.
+ */
+export async function parseAttachedMessage(content: Buffer): Promise<{
+  summary: string;
+  attachments: AttachmentInfo[];
+}> {
+  const parsed = await simpleParser(content);
+
+  const attachments: AttachmentInfo[] = (parsed.attachments || []).map(att => ({
+    filename: att.filename || 'unnamed',
+    contentType: att.contentType || 'application/octet-stream',
+    size: att.size || 0,
+    contentId: att.contentId,
+    charset: attachmentCharset(att.headers),
+    content: att.content,
+  }));
+
+  const lines = [
+    `From: ${addressText(parsed.from)}`,
+    `To: ${addressText(parsed.to)}`,
+    ...(parsed.cc ? [`Cc: ${addressText(parsed.cc)}`] : []),
+    `Subject: ${parsed.subject || '(No Subject)'}`,
+    `Date: ${parsed.date ? parsed.date.toISOString() : ''}`,
+    ...(parsed.messageId ? [`Message-ID: ${parsed.messageId}`] : []),
+    '',
+    parsed.text || '(No text content)',
+  ];
+
+  if (attachments.length > 0) {
+    lines.push('', `Attachments (${attachments.length}):`);
+    attachments.forEach((att, index) => {
+      lines.push(`[${index}] ${att.filename} (${att.contentType}, ${att.size} bytes)`);
+    });
+  }
+
+  return { summary: lines.join('\n'), attachments };
+}
+
+// The charset parameter of a MIME part's Content-Type, if it has one
+export function attachmentCharset(headers: Headers | undefined): string | undefined {
+  const contentType = headers?.get('content-type');
+  if (contentType && typeof contentType === 'object' && 'params' in contentType) {
+    return contentType.params.charset || undefined;
+  }
+  return undefined;
+}
+
+// Decode with the declared charset; UTF-8 when there is none or it is unknown
+function decodeText(content: Buffer, charset: string | undefined): string {
+  if (charset && iconv.encodingExists(charset)) return iconv.decode(content, charset);
+  return content.toString('utf8');
+}
+
+/**
+ * Decode a text-like attachment in its declared charset (UTF-8 by default).
+ * JSON is pretty-printed when it parses; everything else is returned as is.
+ */
+export function extractText(att: Pick<AttachmentInfo, 'filename' | 'contentType' | 'charset'>, content: Buffer): string {
+  // Strip a byte order mark, common in CSV exports
+  const text = decodeText(content, att.charset).replace(/^\uFEFF/, '');
+
+  const isJson = att.contentType.toLowerCase() === 'application/json'
+    || path.extname(att.filename).toLowerCase() === '.json';
+  if (isJson) {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+
+  return text;
+}
+
+// Cut text to at most `maxBytes` of UTF-8 without splitting a character
+export function truncateUtf8(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length <= maxBytes) return text;
+
+  let end = maxBytes;
+  // Back off over continuation bytes (10xxxxxx) to the start of the cut character
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end).toString('utf8');
+}
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { MailService, MessageStat } from './mail-service.js';
+import { MailError } from './mail-errors.js';
+
+export interface DuplicateCopy {
+  mailbox: string;
+  uid: number;
+  // When the server received this copy
+  date: Date;
+  size: number;
+  flags: string[];
+}
+
+export interface DuplicateGroup {
+  // Message-ID, or "hash:" and a digest of the normalized headers and body size
+  key: string;
+  matchedBy: 'message-id' | 'hash';
+  subject: string;
+  from: string;
+  copies: DuplicateCopy[];
+}
+
+export interface DuplicateScan {
+  mailboxes: string[];
+  examined: number;
+  truncated: string[];
+  groups: DuplicateGroup[];
+}
+
+export interface DedupeEntry {
+  key: string;
+  subject: string;
+  keep: DuplicateCopy;
+  remove: DuplicateCopy[];
+}
+
+export interface DedupeResult {
+  preview: boolean;
+  entries: DedupeEntry[];
+  // Per mailbox, the UIDs moved (or to be moved) to Trash
+  removals: Array<{ mailbox: string; uids: number[]; operationId?: string }>;
+  trashMailbox: string;
+}
+
+export interface DuplicateOptions {
+  sinceDays?: number;
+  // Newest messages examined per mailbox
+  maxMessages?: number;
+}
+
+const DEFAULT_MAX_MESSAGES = 10000;
+
+/**
+ * Key copies of the same message share. The Message-ID when there is one,
+ * otherwise a hash of sender, recipients, subject, Date header and the size
+ * of the MIME parts (the full size changes when a server adds headers).
+ */
+export function duplicateKey(message: MessageStat): { key: string; matchedBy: DuplicateGroup['matchedBy'] } {
+  if (message.messageId) return { key: message.messageId, matchedBy: 'message-id' };
+
+  const normalized = [
+    message.from,
+    [...message.to].sort().join(','),
+    message.subject.replace(/\s+/g, ' ').trim().toLowerCase(),
+    message.sentDate ? Math.floor(message.sentDate.getTime() / 1000) : '',
+    message.bodySize,
+  ].join('\n');
+  return { key: `hash:${createHash('sha256').update(normalized).digest('hex').slice(0, 32)}`, matchedBy: 'hash' };
+}
+
+// Earliest position in `preferred`, then oldest received, then lowest UID
+function keeperOrder(preferred: string[]) {
+  const rank = (copy: DuplicateCopy) => {
+    const index = preferred.indexOf(copy.mailbox);
+    return index === -1 ? preferred.length : index;
+  };
+  return (a: DuplicateCopy, b: DuplicateCopy) =>
+    rank(a) - rank(b) || a.date.getTime() - b.date.getTime() || a.uid - b.uid;
+}
+
+/**
+ * Finds copies of the same message within and across mailboxes and removes
+ * the extras. Removed copies go to Trash through the journal, so a dedupe
+ * can be reversed with undo_operation.
+ */
+export class DuplicateFinder {
+  private mailService: MailService;
+
+  constructor(mailService: MailService) {
+    this.mailService = mailService;
+  }
+
+  async findDuplicates(mailboxes: string[], options: DuplicateOptions = {}): Promise<DuplicateScan> {
+    const groups = new Map<string, DuplicateGroup>();
+    const truncated: string[] = [];
+    let examined = 0;
+
+    for (const mailbox of mailboxes) {
+      const fetched = await this.mailService.fetchMessageStats(mailbox, {
+        sinceDays: options.sinceDays,
+        limit: options.maxMessages ?? DEFAULT_MAX_MESSAGES,
+      });
+      examined += fetched.messages.length;
+      if (fetched.messages.length < fetched.matched) truncated.push(mailbox);
+
+      for (const message of fetched.messages) {
+        const { key, matchedBy } = duplicateKey(message);
+        let group = groups.get(key);
+        if (!group) {
+          group = { key, matchedBy, subject: message.subject, from: message.from, copies: [] };
+          groups.set(key, group);
+        }
+        group.copies.push({ mailbox, uid: message.uid, date: message.date, size: message.size, flags: message.flags });
+      }
+    }
+
+    const duplicates = [...groups.values()]
+      .filter(group => group.copies.length > 1)
+      .map(group => ({ ...group, copies: group.copies.sort(keeperOrder([])) }))
+      .sort((a, b) => b.copies.length - a.copies.length || a.subject.localeCompare(b.subject));
+
+    return { mailboxes, examined, truncated, groups: duplicates };
+  }
+
+  /**
+   * Keep one copy of each duplicate group (the one in the earliest of
+   * `preferredMailboxes`, otherwise the oldest) and move the others to
+   * Trash. `keys` limits this to groups reported by findDuplicates. With
+   * `preview`, only the plan is returned.
+   */
+  async dedupe(
+    mailboxes: string[],
+    options: DuplicateOptions & { preferredMailboxes?: string[]; keys?: string[]; preview?: boolean } = {}
+  ): Promise<DedupeResult> {
+    const trashMailbox = await this.mailService.getTrashMailbox();
+    if (mailboxes.includes(trashMailbox)) {
+      throw new MailError('INVALID_ARGUMENT', `"${trashMailbox}" is the Trash mailbox; use empty_trash to clear it`);
+    }
+
+    const scan = await this.findDuplicates(mailboxes, options);
+    const keys = options.keys?.length ? new Set(options.keys) : undefined;
+    const order = keeperOrder(options.preferredMailboxes || []);
+
+    const entries: DedupeEntry[] = scan.groups
+      .filter(group => !keys || keys.has(group.key))
+      .map(group => {
+        const [keep, ...remove] = [...group.copies].sort(order);
+        return { key: group.key, subject: group.subject, keep, remove };
+      });
+
+    const byMailbox = new Map<string, number[]>();
+    for (const copy of entries.flatMap(entry => entry.remove)) {
+      byMailbox.set(copy.mailbox, [...(byMailbox.get(copy.mailbox) || []), copy.uid]);
+    }
+    const removals: DedupeResult['removals'] = [...byMailbox].map(([mailbox, uids]) => ({
+      mailbox,
+      uids: uids.sort((a, b) => a - b),
+    }));
+
+    const preview = options.preview !== false;
+    if (!preview) {
+      for (const removal of removals) {
+        removal.operationId = await this.mailService.deleteEmails(removal.mailbox, removal.uids, { trashMailbox });
+      }
+    }
+
+    return { preview, entries, removals, trashMailbox };
+  }
+}
@@ -0,0 +1,248 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import Imap from 'imap';
+import { MailConfig } from './mail-service.js';
+
+// Connections unused for longer than this are checked with a NOOP before use
+const PROBE_AFTER = 60000;
+const PROBE_TIMEOUT = 10000;
+const CONNECT_ATTEMPTS = 4;
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 8000;
+export const MAX_POOL_SIZE = 5;
+
+// The connection whose task is running. Sockets are created inside the
+// owning connection's context, so node-imap callbacks see it too.
+const activeConnection = new AsyncLocalStorage<ImapConnection>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * One IMAP connection with its own command queue. Tasks run one at a time,
+ * so a mailbox selected by a task stays selected until the task finishes.
+ * The connection is opened on first use and re-established with backoff
+ * whenever it has dropped; idle connections are kept alive with NOOP and
+ * checked before they are used again.
+ */
+export class ImapConnection {
+  private config: MailConfig['imap'];
+  private client?: Imap;
+  private selected?: { mailbox: string; readOnly: boolean; box: Imap.Box };
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending = 0;
+  private lastUsed = 0;
+
+  constructor(config: MailConfig['imap']) {
+    this.config = config;
+  }
+
+  static current(): ImapConnection | undefined {
+    return activeConnection.getStore();
+  }
+
+  get imap(): Imap {
+    if (!this.client) throw new Error('IMAP connection is not open');
+    return this.client;
+  }
+
+  // Queued and running tasks
+  get load(): number {
+    return this.pending;
+  }
+
+  /**
+   * Queue a task. With `retry`, a task that failed because the connection
+   * dropped is run once more on a fresh connection; only use it for reads.
+   */
+  run<T>(task: () => Promise<T>, options: { retry?: boolean } = {}): Promise<T> {
+    this.pending++;
+    const result = this.queue.then(() => activeConnection.run(this, async () => {
+      try {
+        await this.ensureReady();
+        try {
+          return await task();
+        } catch (error) {
+          if (!options.retry || this.isOpen()) throw error;
+          await this.ensureReady();
+          return await task();
+        }
+      } finally {
+        this.lastUsed = Date.now();
+        this.pending--;
+      }
+    }));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Select a mailbox unless it is already selected. A mailbox selected
+   * read-write also serves read-only work. `refresh` selects it again to
+   * get current UIDNEXT / HIGHESTMODSEQ values.
+   */
+  async openBox(mailbox: string, readOnly: boolean, options: { refresh?: boolean } = {}): Promise<Imap.Box> {
+    const selected = this.selected;
+    if (!options.refresh && selected?.mailbox === mailbox && (readOnly || !selected.readOnly)) {
+      return selected.box;
+    }
+
+    this.selected = undefined;
+    const box = await new Promise<Imap.Box>((resolve, reject) => {
+      this.imap.openBox(mailbox, readOnly, (err, box) => err ? reject(err) : resolve(box));
+    });
+    this.selected = { mailbox, readOnly, box };
+    return box;
+  }
+
+  // Forget the selection, e.g. after the selected mailbox was deleted or renamed
+  deselect(): void {
+    this.selected = undefined;
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.discard();
+    if (!client || client.state === 'disconnected') return;
+
+    await new Promise<void>(resolve => {
+      client.once('end', () => resolve());
+      client.once('close', () => resolve());
+      client.end();
+    });
+  }
+
+  private isOpen(): boolean {
+    return this.client?.state === 'authenticated';
+  }
+
+  private async ensureReady(): Promise<void> {
+    if (this.isOpen()) {
+      if (Date.now() - this.lastUsed < PROBE_AFTER || await this.probe()) return;
+    }
+
+    let delay = RECONNECT_MIN_DELAY;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.connect();
+        return;
+      } catch (error: any) {
+        // Wrong credentials won't get better by retrying
+        if (attempt >= CONNECT_ATTEMPTS || error?.source === 'authentication') throw error;
+        console.error(`[WARNING] IMAP connection failed (attempt ${attempt}), retrying in ${delay}ms:`, error?.message || error);
+        await sleep(delay);
+        delay = Math.min(delay * 2, RECONNECT_MAX_DELAY);
+      }
+    }
+  }
+
+  /**
+   * Cheap round trip; a silently dropped connection never answers. node-imap
+   * has no public NOOP, and it refuses STATUS on the selected mailbox, so
+   * that case searches for the last UID instead.
+   */
+  private probe(): Promise<boolean> {
+    const client = this.imap;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.discard();
+        resolve(false);
+      }, PROBE_TIMEOUT);
+
+      const done = (err: Error | null) => {
+        clearTimeout(timer);
+        if (err) this.discard();
+        resolve(!err);
+      };
+      try {
+        if (this.selected) client.search([['UID', '*']], done);
+        else client.status('INBOX', done);
+      } catch (error) {
+        done(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private connect(): Promise<void> {
+    this.discard();
+
+    const client = new Imap({
+      host: this.config.host,
+      port: this.config.port,
+      tls: this.config.tls,
+      user: this.config.user,
+      password: this.config.password,
+      tlsOptions: { rejectUnauthorized: false },
+      // node-imap IDLEs (or sends NOOP) while the connection has nothing to do
+      keepalive: true,
+    });
+    this.client = client;
+
+    // Any drop makes the next task reconnect
+    const dropped = () => {
+      if (this.client === client) {
+        this.client = undefined;
+        this.selected = undefined;
+      }
+    };
+    client.on('error', (err: Error) => {
+      console.error('IMAP error:', err);
+      dropped();
+    });
+    client.once('close', dropped);
+    client.once('end', dropped);
+
+    return new Promise((resolve, reject) => {
+      client.once('ready', () => resolve());
+      client.once('error', reject);
+      client.once('close', () => reject(new Error('IMAP connection closed during login')));
+      client.connect();
+    });
+  }
+
+  private discard(): void {
+    const client = this.client;
+    this.client = undefined;
+    this.selected = undefined;
+    if (client && client.state !== 'disconnected') client.destroy();
+  }
+}
+
+/**
+ * A small set of connections to one account. Writes always go to the
+ * first connection so they happen in order; reads go to whichever
+ * connection has the least queued work.
+ */
+export class ImapPool {
+  private connections: ImapConnection[];
+
+  constructor(config: MailConfig['imap']) {
+    const size = Math.min(Math.max(config.poolSize || 1, 1), MAX_POOL_SIZE);
+    this.connections = Array.from({ length: size }, () => new ImapConnection(config));
+  }
+
+  /**
+   * Run a task with exclusive use of a connection. Calls made from inside a
+   * running task reuse its connection instead of queueing behind it.
+   */
+  run<T>(task: () => Promise<T>, mode: 'read' | 'write'): Promise<T> {
+    const current = ImapConnection.current();
+    if (current && this.connections.includes(current)) return task();
+
+    if (mode === 'write') return this.connections[0].run(task);
+
+    const connection = this.connections.reduce((best, candidate) => (candidate.load < best.load ? candidate : best));
+    return connection.run(task, { retry: true });
+  }
+
+  // The connection of the running task
+  current(): ImapConnection {
+    const current = ImapConnection.current();
+    if (!current || !this.connections.includes(current)) {
+      throw new Error('IMAP command issued outside a connection task');
+    }
+    return current;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.connections.map(connection => connection.close()));
+  }
+}
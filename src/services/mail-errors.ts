@@ -0,0 +1,57 @@
+// Machine-readable error codes returned by the tools
+export type MailErrorCode =
+  | 'AUTH_FAILED'
+  | 'CONNECTION_FAILED'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'MAILBOX_NOT_FOUND'
+  | 'MAILBOX_NOT_EMPTY'
+  | 'UID_NOT_FOUND'
+  | 'NOT_FOUND'
+  | 'INVALID_ARGUMENT'
+  | 'LIMIT_EXCEEDED'
+  | 'SEND_FAILED'
+  | 'NOT_SUPPORTED'
+  | 'SERVER_ERROR'
+  | 'INTERNAL_ERROR';
+
+export class MailError extends Error {
+  readonly code: MailErrorCode;
+
+  constructor(code: MailErrorCode, message: string) {
+    super(message);
+    this.name = 'MailError';
+    this.code = code;
+  }
+}
+
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'];
+const MAILBOX_MISSING_PATTERN = /no such (mailbox|folder)|unknown (mailbox|folder)|(mailbox|folder)[^.]*(does ?n[o']t exist|not found)/i;
+
+/**
+ * Map an error to a code. MailErrors carry their own; IMAP (node-imap) and
+ * SMTP (nodemailer) errors are classified by their source, response code
+ * or system error code.
+ */
+export function errorCode(error: unknown): MailErrorCode {
+  if (error instanceof MailError) return error.code;
+
+  const err = error as { source?: string; textCode?: string; code?: string; message?: string } | undefined;
+  if (!err || typeof err !== 'object') return 'INTERNAL_ERROR';
+
+  // node-imap
+  if (err.source === 'authentication' || err.textCode === 'AUTHENTICATIONFAILED') return 'AUTH_FAILED';
+  if (err.textCode === 'NONEXISTENT' || err.textCode === 'TRYCREATE') return 'MAILBOX_NOT_FOUND';
+  if (err.source && ['socket', 'socket-timeout', 'timeout', 'timeout-auth'].includes(err.source)) return 'CONNECTION_FAILED';
+
+  // nodemailer
+  if (err.code === 'EAUTH') return 'AUTH_FAILED';
+  if (err.code === 'ECONNECTION' || err.code === 'ESOCKET' || err.code === 'EDNS') return 'CONNECTION_FAILED';
+  if (err.code === 'EENVELOPE' || err.code === 'EMESSAGE') return 'SEND_FAILED';
+
+  if (err.code && CONNECTION_ERROR_CODES.includes(err.code)) return 'CONNECTION_FAILED';
+  if (err.message && MAILBOX_MISSING_PATTERN.test(err.message)) return 'MAILBOX_NOT_FOUND';
+  if (err.message?.startsWith('Server does not support')) return 'NOT_SUPPORTED';
+  // Tagged NO / BAD responses
+  if (err.source === 'protocol') return 'SERVER_ERROR';
+  return 'INTERNAL_ERROR';
+}
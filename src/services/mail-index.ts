@@ -0,0 +1,461 @@
+import { mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  MailService,
+  EmailSummary,
+  EmailPage,
+  IndexedEmail,
+  PageCursor,
+  SearchCriteria,
+  decodePageCursor,
+  encodePageCursor,
+  parseSearchDate,
+} from './mail-service.js';
+import { MailError } from './mail-errors.js';
+
+// Stored form of an IndexedEmail (dates as ISO strings)
+interface IndexRecord {
+  uid: number;
+  subject: string;
+  from: string;
+  to: string;
+  cc?: string;
+  bcc?: string;
+  date: string;
+  internalDate: string;
+  flags: string[];
+  size?: number;
+  hasAttachments?: boolean;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  text?: string;
+}
+
+interface MailboxIndexFile {
+  version: 1;
+  mailbox: string;
+  uidValidity: number;
+  uidNext: number;
+  highestModSeq?: string;
+  condstore: boolean;
+  bodies: boolean;
+  syncedAt: string;
+  messages: IndexRecord[];
+}
+
+export interface IndexStatus {
+  mailbox: string;
+  messages: number;
+  bodies: boolean;
+  condstore: boolean;
+  syncedAt: string;
+  uidValidity: number;
+  uidNext: number;
+}
+
+export interface SyncResult {
+  mailbox: string;
+  reset: boolean;
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+  bodies: boolean;
+  condstore: boolean;
+}
+
+// 'auto' answers from the index after an incremental sync when the mailbox is indexed
+export type IndexSource = 'auto' | 'index' | 'server';
+
+const INDEX_VERSION = 1;
+// Without CONDSTORE an incremental sync refetches every flag, so 'auto' does it at most this often
+const DEFAULT_AUTO_SYNC_SECONDS = 60;
+
+const SYSTEM_FLAGS: Record<string, string> = {
+  seen: '\\Seen',
+  flagged: '\\Flagged',
+  answered: '\\Answered',
+  draft: '\\Draft',
+  deleted: '\\Deleted',
+};
+
+function toRecord(email: IndexedEmail): IndexRecord {
+  return {
+    ...email,
+    date: email.date.toISOString(),
+    internalDate: (email.internalDate || email.date).toISOString(),
+  };
+}
+
+function toSummary(record: IndexRecord): EmailSummary {
+  return {
+    uid: record.uid,
+    subject: record.subject,
+    from: record.from,
+    to: record.to,
+    date: new Date(record.date),
+    flags: record.flags,
+    hasAttachments: record.hasAttachments,
+    size: record.size,
+    messageId: record.messageId,
+    inReplyTo: record.inReplyTo,
+    references: record.references,
+  };
+}
+
+function contains(value: string | undefined, term: string): boolean {
+  return (value || '').toLowerCase().includes(term.toLowerCase());
+}
+
+function hasFlag(record: IndexRecord, flag: string): boolean {
+  const wanted = (SYSTEM_FLAGS[flag.replace(/^\\/, '').toLowerCase()] || flag).toLowerCase();
+  return record.flags.some(existing => existing.toLowerCase() === wanted);
+}
+
+function daysAgo(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+function inUidSet(uid: number, set: string, maxUid: number): boolean {
+  return set.split(',').some(part => {
+    const [start, end = start] = part.trim().split(':').map(value => (value === '*' ? maxUid : parseInt(value)));
+    return uid >= Math.min(start, end) && uid <= Math.max(start, end);
+  });
+}
+
+// Criteria that need data the index does not keep
+function unsupportedCriterion(criteria: SearchCriteria, bodies: boolean): string | undefined {
+  if (criteria.header) return 'header';
+  if (!bodies && criteria.body) return 'body (bodies are not indexed)';
+  if (!bodies && criteria.text) return 'text (bodies are not indexed)';
+  const groups = [...(criteria.and || []), ...(criteria.or || []), ...(criteria.not ? [criteria.not] : [])];
+  for (const group of groups) {
+    const found = unsupportedCriterion(group, bodies);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate search criteria against an indexed message with the same
+ * semantics as IMAP SEARCH: case-insensitive substring matches and
+ * date-only comparisons against the internal date.
+ */
+function matches(record: IndexRecord, criteria: SearchCriteria, maxUid: number): boolean {
+  const received = new Date(record.internalDate);
+
+  if (criteria.unreadOnly && hasFlag(record, '\\Seen')) return false;
+  if (criteria.from && !contains(record.from, criteria.from)) return false;
+  if (criteria.to && !contains(record.to, criteria.to)) return false;
+  if (criteria.cc && !contains(record.cc, criteria.cc)) return false;
+  if (criteria.bcc && !contains(record.bcc, criteria.bcc)) return false;
+  if (criteria.subject && !contains(record.subject, criteria.subject)) return false;
+  if (criteria.body && !contains(record.text, criteria.body)) return false;
+  if (criteria.text) {
+    const haystack = [record.from, record.to, record.cc, record.bcc, record.subject, record.text].join('\n');
+    if (!contains(haystack, criteria.text)) return false;
+  }
+
+  if (criteria.flagged !== undefined && hasFlag(record, '\\Flagged') !== criteria.flagged) return false;
+  if (criteria.answered !== undefined && hasFlag(record, '\\Answered') !== criteria.answered) return false;
+  if (criteria.keyword && !hasFlag(record, criteria.keyword)) return false;
+  if (criteria.flags && !criteria.flags.every(flag => hasFlag(record, flag))) return false;
+
+  if (criteria.larger !== undefined && !((record.size ?? 0) > criteria.larger)) return false;
+  if (criteria.smaller !== undefined && !((record.size ?? 0) < criteria.smaller)) return false;
+  if (criteria.uid && !inUidSet(record.uid, criteria.uid, maxUid)) return false;
+
+  if (criteria.sinceDays && received < daysAgo(criteria.sinceDays)) return false;
+  if (criteria.beforeDays && received >= daysAgo(criteria.beforeDays)) return false;
+  if (criteria.sinceDate && received < parseSearchDate('sinceDate', criteria.sinceDate)) return false;
+  if (criteria.beforeDate && received >= parseSearchDate('beforeDate', criteria.beforeDate)) return false;
+
+  if (criteria.and && !criteria.and.every(group => matches(record, group, maxUid))) return false;
+  if (criteria.or && criteria.or.length > 0 && !criteria.or.some(group => matches(record, group, maxUid))) return false;
+  if (criteria.not && matches(record, criteria.not, maxUid)) return false;
+
+  return true;
+}
+
+/**
+ * File-based cache of envelopes, flags and optionally plain text bodies,
+ * one JSON file per mailbox. Mailboxes are added with sync() and kept
+ * current incrementally using UIDVALIDITY, the UID list and CONDSTORE.
+ * QRESYNC is not used: node-imap does not parse VANISHED responses.
+ * Syncs of one mailbox run one at a time; concurrent 'auto' requests share
+ * the sync in progress.
+ */
+export class MailIndex {
+  private mailService: MailService;
+  private directory: string;
+  private cache = new Map<string, MailboxIndexFile>();
+  private syncing = new Map<string, Promise<SyncResult>>();
+  private autoSyncMs: number;
+
+  constructor(mailService: MailService, directory: string, options: { autoSyncSeconds?: number } = {}) {
+    this.mailService = mailService;
+    this.directory = directory;
+    const seconds = options.autoSyncSeconds ?? Number(process.env.MAIL_INDEX_AUTO_SYNC_SECONDS || DEFAULT_AUTO_SYNC_SECONDS);
+    this.autoSyncMs = (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_AUTO_SYNC_SECONDS) * 1000;
+  }
+
+  private fileFor(mailbox: string): string {
+    return path.join(this.directory, `${encodeURIComponent(mailbox)}.json`);
+  }
+
+  private async load(mailbox: string): Promise<MailboxIndexFile | undefined> {
+    const cached = this.cache.get(mailbox);
+    if (cached) return cached;
+
+    try {
+      const index = JSON.parse(await readFile(this.fileFor(mailbox), 'utf8')) as MailboxIndexFile;
+      if (index.version !== INDEX_VERSION) return undefined;
+      this.cache.set(mailbox, index);
+      return index;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw new Error(`Cannot read index for ${mailbox}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async save(index: MailboxIndexFile): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(index.mailbox);
+    // Write then rename so a crash never leaves a half-written index; the
+    // temporary name is per process in case two servers share MAIL_DATA_DIR
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(index));
+    await rename(tmp, file);
+    this.cache.set(index.mailbox, index);
+  }
+
+  /**
+   * Bring the index for a mailbox up to date, creating it if needed.
+   * `bodies` switches text indexing on or off; turning it on refetches the
+   * whole mailbox. `rebuild` discards the existing index first.
+   */
+  async sync(mailbox: string, options: { bodies?: boolean; rebuild?: boolean } = {}): Promise<SyncResult> {
+    const previous = this.syncing.get(mailbox);
+    const run = (previous || Promise.resolve()).catch(() => {}).then(() => this.runSync(mailbox, options));
+    this.syncing.set(mailbox, run);
+    try {
+      return await run;
+    } finally {
+      if (this.syncing.get(mailbox) === run) this.syncing.delete(mailbox);
+    }
+  }
+
+  private async runSync(mailbox: string, options: { bodies?: boolean; rebuild?: boolean }): Promise<SyncResult> {
+    let existing = options.rebuild ? undefined : await this.load(mailbox);
+    const bodies = options.bodies ?? existing?.bodies ?? false;
+    if (existing && bodies && !existing.bodies) existing = undefined;
+
+    const changes = await this.mailService.fetchMailboxChanges(
+      mailbox,
+      existing && {
+        uidValidity: existing.uidValidity,
+        uidNext: existing.uidNext,
+        highestModSeq: existing.highestModSeq,
+        uids: existing.messages.map(message => message.uid),
+      },
+      { bodies }
+    );
+
+    const removed = new Set(changes.removed);
+    let updated = 0;
+    const messages = (changes.reset ? [] : existing!.messages)
+      .filter(message => !removed.has(message.uid))
+      .map(message => {
+        let record = message;
+        // Without CONDSTORE every message's flags come back; count real changes only
+        const flags = changes.flags.get(message.uid);
+        if (flags && [...flags].sort().join(' ') !== [...message.flags].sort().join(' ')) {
+          record = { ...message, flags };
+          updated++;
+        }
+        if (!bodies && record.text !== undefined) {
+          const { text, ...rest } = record;
+          return rest;
+        }
+        return record;
+      });
+    messages.push(...changes.added.map(toRecord));
+    messages.sort((a, b) => a.uid - b.uid);
+
+    await this.save({
+      version: INDEX_VERSION,
+      mailbox,
+      uidValidity: changes.state.uidValidity,
+      uidNext: changes.state.uidNext,
+      highestModSeq: changes.state.highestModSeq,
+      condstore: changes.condstore,
+      bodies,
+      syncedAt: new Date().toISOString(),
+      messages,
+    });
+
+    return {
+      mailbox,
+      reset: changes.reset,
+      added: changes.added.length,
+      updated,
+      removed: changes.removed.length,
+      total: messages.length,
+      bodies,
+      condstore: changes.condstore,
+    };
+  }
+
+  async status(mailbox?: string): Promise<IndexStatus[]> {
+    let mailboxes: string[];
+    if (mailbox) {
+      mailboxes = [mailbox];
+    } else {
+      const files = await readdir(this.directory).catch(() => [] as string[]);
+      mailboxes = files
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+    }
+
+    const statuses: IndexStatus[] = [];
+    for (const name of mailboxes) {
+      const index = await this.load(name);
+      if (!index) continue;
+      statuses.push({
+        mailbox: index.mailbox,
+        messages: index.messages.length,
+        bodies: index.bodies,
+        condstore: index.condstore,
+        syncedAt: index.syncedAt,
+        uidValidity: index.uidValidity,
+        uidNext: index.uidNext,
+      });
+    }
+    return statuses.sort((a, b) => a.mailbox.localeCompare(b.mailbox));
+  }
+
+  /**
+   * Resolve which index (if any) should answer a request. Returns undefined
+   * when the server should be asked instead; throws when `source` is
+   * 'index' but the index cannot answer.
+   */
+  private async resolve(
+    mailbox: string,
+    source: IndexSource,
+    criteria?: SearchCriteria
+  ): Promise<MailboxIndexFile | undefined> {
+    if (source === 'server') return undefined;
+
+    let index = await this.load(mailbox);
+    if (!index) {
+      if (source === 'index') throw new MailError('NOT_FOUND', `Mailbox "${mailbox}" is not indexed; run sync_mailbox first`);
+      return undefined;
+    }
+
+    const unsupported = criteria && unsupportedCriterion(criteria, index.bodies);
+    if (unsupported) {
+      if (source === 'index') throw new MailError('NOT_SUPPORTED', `The local index cannot search by ${unsupported}`);
+      return undefined;
+    }
+
+    if (source === 'auto') {
+      const running = this.syncing.get(mailbox);
+      if (running) {
+        // Answer from the sync already under way instead of queueing another
+        await running;
+      } else if (index.condstore || Date.now() - Date.parse(index.syncedAt) >= this.autoSyncMs) {
+        await this.sync(mailbox);
+      }
+      index = (await this.load(mailbox))!;
+    }
+    return index;
+  }
+
+  /**
+   * Search an indexed mailbox, newest first. Returns null when the
+   * request should go to the server instead.
+   */
+  async search(
+    criteria: SearchCriteria,
+    source: IndexSource = 'auto'
+  ): Promise<{ emails: EmailSummary[]; syncedAt: string } | null> {
+    const index = await this.resolve(criteria.mailbox || 'INBOX', source, criteria);
+    if (!index) return null;
+
+    const maxUid = Math.max(index.uidNext - 1, 0);
+    let found = index.messages
+      .filter(record => matches(record, criteria, maxUid))
+      .filter(record => criteria.hasAttachments === undefined || !!record.hasAttachments === criteria.hasAttachments)
+      .sort((a, b) => b.uid - a.uid);
+    if (criteria.limit) found = found.slice(0, criteria.limit);
+
+    return { emails: found.map(toSummary), syncedAt: index.syncedAt };
+  }
+
+  /**
+   * One page of an indexed mailbox sorted by date, using the same cursor
+   * format as MailService.listEmailsPage. Returns null when the server
+   * should be asked instead, including for cursors the server issued: the
+   * two listings order messages differently, so a listing never switches
+   * source between pages.
+   */
+  async listPage(
+    mailbox: string,
+    options: { page?: number; pageSize: number; cursor?: string; order?: 'newest' | 'oldest' },
+    source: IndexSource = 'auto'
+  ): Promise<(EmailPage & { syncedAt: string }) | null> {
+    const cursor = options.cursor ? decodePageCursor(options.cursor) : undefined;
+    if (cursor?.source === 'server') {
+      if (source === 'index') {
+        throw new MailError('INVALID_ARGUMENT', 'Cursor belongs to a listing from the server; continue with source "auto" or "server", or start again without a cursor');
+      }
+      return null;
+    }
+
+    const index = await this.resolve(mailbox, source);
+    if (!index) {
+      if (cursor && source !== 'server') throw new MailError('INVALID_ARGUMENT', `Cursor belongs to a listing from the local index, which "${mailbox}" no longer has; start again without a cursor`);
+      return null;
+    }
+
+    let state: PageCursor;
+    if (cursor) {
+      state = cursor;
+      if (state.uidValidity !== index.uidValidity) {
+        throw new MailError('INVALID_ARGUMENT', 'Cursor is no longer valid for this mailbox (UIDVALIDITY changed); start again without a cursor');
+      }
+    } else {
+      state = {
+        uidValidity: index.uidValidity,
+        maxUid: index.uidNext - 1,
+        offset: Math.max((options.page || 1) - 1, 0) * options.pageSize,
+        order: options.order || 'newest',
+        source: 'index',
+      };
+    }
+
+    const direction = state.order === 'oldest' ? 1 : -1;
+    const listed = index.messages
+      .filter(record => record.uid <= state.maxUid)
+      .sort((a, b) => direction * (Date.parse(a.date) - Date.parse(b.date) || a.uid - b.uid));
+
+    const pageSize = options.pageSize;
+    const nextOffset = state.offset + pageSize;
+
+    return {
+      emails: listed.slice(state.offset, nextOffset).map(toSummary),
+      total: listed.length,
+      page: Math.floor(state.offset / pageSize) + 1,
+      pageSize,
+      totalPages: Math.ceil(listed.length / pageSize),
+      offset: state.offset,
+      sortedBy: 'date',
+      nextCursor: nextOffset < listed.length ? encodePageCursor({ ...state, offset: nextOffset }) : undefined,
+      syncedAt: index.syncedAt,
+    };
+  }
+}
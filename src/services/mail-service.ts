@@ -1,6 +1,29 @@
 import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
 import Imap from 'imap';
-import { simpleParser } from 'mailparser';
+import { simpleParser, AddressObject } from 'mailparser';
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { attachmentCharset, classifyAttachment, parseAttachedMessage } from './attachment-extractor.js';
+import { JournalMessage, JournalOperation, OperationJournal, isUndoable } from './operation-journal.js';
+import { ImapPool } from './imap-connection.js';
+import { MailError } from './mail-errors.js';
+
+// A THREAD response: each thread is a UID or a list of UIDs and nested replies
+type ThreadTree = number | ThreadTree[];
+
+// node-imap implements UID THREAD (RFC 5256), which @types/imap leaves out
+interface ThreadingImap {
+  thread(algorithm: string, criteria: any[], callback: (error: Error | null, threads: ThreadTree[]) => void): void;
+}
+
+// node-imap passes a tagged COPYUID destination set to copy and move callbacks; @types/imap omits it
+type CopyCallback = (error: Error | null, copyUids?: string | number) => void;
+interface CopyingImap {
+  copy(source: number[], mailbox: string, callback: CopyCallback): void;
+  move(source: number[], mailbox: string, callback: CopyCallback): void;
+}
 
 export interface MailConfig {
   smtp: {
@@ -18,7 +41,19 @@ export interface MailConfig {
     tls: boolean;
     user: string;
     password: string;
+    // Connections opened for parallel reads (default 1)
+    poolSize?: number;
+  };
+  // Override special-use mailbox detection
+  mailboxes?: {
+    drafts?: string;
+    sent?: string;
+    trash?: string;
   };
+  // APPEND a copy of sent mail to the Sent mailbox (default true)
+  saveSentCopy?: boolean;
+  // Mailboxes watched with IDLE from startup
+  watchMailboxes?: string[];
 }
 
 export interface EmailSummary {
@@ -30,9 +65,15 @@ export interface EmailSummary {
   flags: string[];
   hasAttachments?: boolean;
   size?: number;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
 }
 
 export interface EmailDetails extends EmailSummary {
+  cc?: string;
+  bcc?: string;
+  replyTo?: string;
   textContent?: string;
   htmlContent?: string;
   attachments: AttachmentInfo[];
@@ -44,30 +85,365 @@ export interface AttachmentInfo {
   contentType: string;
   size: number;
   contentId?: string;
+  // The charset parameter of a text attachment's Content-Type
+  charset?: string;
+  content?: Buffer;
+}
+
+export interface SaveAttachmentsOptions {
+  directory: string;
+  // Relative path under `directory`; may not escape it
+  subdirectory?: string;
+  // Glob matched against the attachment filename, e.g. "*.pdf"
+  filenamePattern?: string;
+  // Exact types or wildcards, e.g. ["application/pdf", "image/*"]
+  contentTypes?: string[];
+  maxSize?: number;
+}
+
+export interface SkippedAttachment {
+  filename: string;
+  reason: string;
+}
+
+export interface SendMailOptions {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string | string[];
+  // Overrides MailConfig.saveSentCopy for this message
+  saveToSent?: boolean;
+  attachments?: Array<{
+    filename: string;
+    content: string | Buffer;
+    contentType?: string;
+  }>;
+}
+
+export interface RecipientResult {
+  address: string;
+  accepted: boolean;
+  response?: string;
+}
+
+export type DraftOptions = Omit<SendMailOptions, 'to'> & { to?: string | string[] };
+
+export interface SendMailResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  recipients?: RecipientResult[];
+  sentMailbox?: string;
+  sentUid?: number;
+  sentCopyError?: string;
+}
+
+export interface EmailPage {
+  emails: EmailSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  offset: number;
+  sortedBy: 'date' | 'uid';
+  nextCursor?: string;
+}
+
+export interface UndoResult {
+  operation: JournalOperation;
+  restored: number;
+  // Messages that could no longer be found (deleted or moved again since)
+  missing: number;
+}
+
+export interface PageCursor {
+  uidValidity: number;
+  // Highest UID included in the listing; newer mail is left out
+  maxUid: number;
+  offset: number;
+  order: 'newest' | 'oldest';
+  // The index and the server order pages differently, so a cursor only continues the listing that issued it
+  source: 'index' | 'server';
+}
+
+export function encodePageCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodePageCursor(value: string): PageCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.uidValidity === 'number' &&
+      typeof cursor.maxUid === 'number' &&
+      typeof cursor.offset === 'number' &&
+      (cursor.order === 'newest' || cursor.order === 'oldest') &&
+      (cursor.source === 'index' || cursor.source === 'server')
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new MailError('INVALID_ARGUMENT', 'Invalid pagination cursor');
+}
+
+// Envelope, flags and (optionally) plain text kept by the local index
+export interface IndexedEmail extends EmailSummary {
+  cc?: string;
+  bcc?: string;
+  internalDate: Date;
+  text?: string;
+}
+
+// Envelope, size and attachment totals of a message, read from its envelope and BODYSTRUCTURE
+export interface MessageStat {
+  uid: number;
+  messageId?: string;
+  // Sender and recipient addresses, lower-cased
+  from: string;
+  fromName?: string;
+  to: string[];
+  subject: string;
+  // Date header
+  sentDate?: Date;
+  // INTERNALDATE, when the server received the message
+  date: Date;
+  size: number;
+  // Sum of the MIME part sizes; unlike `size` it does not change when a server adds headers
+  bodySize: number;
+  flags: string[];
+  attachments: number;
+  // Encoded size of the attachment parts as stored on the server
+  attachmentBytes: number;
+}
+
+export interface MailboxSyncState {
+  uidValidity: number;
+  uidNext: number;
+  // Only set when the server supports CONDSTORE
+  highestModSeq?: string;
+}
+
+export interface MailboxChanges {
+  state: MailboxSyncState;
+  // Nothing was known or UIDVALIDITY changed; `added` holds the whole mailbox
+  reset: boolean;
+  added: IndexedEmail[];
+  // New flags of already known messages, by UID
+  flags: Map<number, string[]>;
+  removed: number[];
+  condstore: boolean;
 }
 
 export interface SearchCriteria {
   mailbox?: string;
   from?: string;
   to?: string;
+  cc?: string;
+  bcc?: string;
   subject?: string;
   body?: string;
+  // Anywhere in the headers or body
+  text?: string;
+  // Header name and the text its value must contain
+  header?: { name: string; value: string };
   unreadOnly?: boolean;
+  flagged?: boolean;
+  answered?: boolean;
+  keyword?: string;
+  // Messages must carry all of these, e.g. ['\Flagged', 'Important']
+  flags?: string[];
+  // Size in bytes
+  larger?: number;
+  smaller?: number;
+  // UID set such as "100:200" or "5,9,20:*"
+  uid?: string;
   sinceDays?: number;
   beforeDays?: number;
+  // ISO dates (YYYY-MM-DD); sinceDate is inclusive, beforeDate exclusive
+  sinceDate?: string;
+  beforeDate?: string;
+  // All of these groups must match (lets the same field appear twice)
+  and?: SearchCriteria[];
+  // Matches if any of the groups matches
+  or?: SearchCriteria[];
+  // Excludes messages matching this group
+  not?: SearchCriteria;
+  // Checked against BODYSTRUCTURE after the server search; top level only
   hasAttachments?: boolean;
-  flags?: string[];
   limit?: number;
 }
 
+export const DRAFTS_MAILBOX_FALLBACKS = ['Drafts', 'Draft', '[Gmail]/Drafts', 'INBOX.Drafts'];
+export const TRASH_MAILBOX_FALLBACKS = ['Trash', 'Deleted Items', 'Deleted Messages', '[Gmail]/Trash', 'INBOX.Trash'];
+export const SENT_MAILBOX_FALLBACKS = ['Sent', 'Sent Items', 'Sent Messages', 'Sent Mail', '[Gmail]/Sent Mail', 'INBOX.Sent'];
+
+// Extract <message-id> tokens from a Message-ID / In-Reply-To / References header value
+export function parseMessageIds(value: string | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) || [];
+}
+
+const SYSTEM_FLAG_CRITERIA: Record<string, string> = {
+  seen: 'SEEN',
+  flagged: 'FLAGGED',
+  answered: 'ANSWERED',
+  draft: 'DRAFT',
+  deleted: 'DELETED',
+};
+
+const UID_SET_PATTERN = /^(?:\d+|\*)(?::(?:\d+|\*))?$/;
+
+// Summaries fetched per round while filtering on hasAttachments
+const SEARCH_FETCH_BATCH = 100;
+
+// Messages fetched per round while syncing the local index
+const INDEX_FETCH_BATCH = 200;
+const INDEX_TEXT_MAX_CHARS = 20000;
+// Content-* headers let the TEXT part be decoded when bodies are indexed
+const INDEX_HEADER_FIELDS = 'HEADER.FIELDS (FROM TO CC BCC SUBJECT DATE MESSAGE-ID IN-REPLY-TO REFERENCES MIME-VERSION CONTENT-TYPE CONTENT-TRANSFER-ENCODING)';
+
+// Messages fetched per round while collecting mailbox statistics
+const STATS_FETCH_BATCH = 500;
+
+// Message-IDs ORed into one search while locating messages for an undo
+const LOCATE_SEARCH_BATCH = 50;
+
+// Expand a COPYUID destination set such as "7:9,12" (node-imap passes a number for a single UID)
+function expandUidSet(set: string | number | undefined): number[] {
+  if (set === undefined) return [];
+  return String(set).split(',').flatMap(part => {
+    const [start, end = start] = part.split(':').map(Number);
+    const length = Math.abs(end - start) + 1;
+    return Array.from({ length }, (_, index) => Math.min(start, end) + index);
+  });
+}
+
+// Walk the leaf parts of a node-imap BODYSTRUCTURE. Attachments are parts with
+// an attachment disposition or a filename; attached messages count as one part.
+function partTotals(struct: any): { count: number; bytes: number; partBytes: number } {
+  if (Array.isArray(struct)) {
+    return struct.reduce((total, part) => {
+      const { count, bytes, partBytes } = partTotals(part);
+      return { count: total.count + count, bytes: total.bytes + bytes, partBytes: total.partBytes + partBytes };
+    }, { count: 0, bytes: 0, partBytes: 0 });
+  }
+  if (!struct?.partID) return { count: 0, bytes: 0, partBytes: 0 };
+
+  const size = Number(struct.size) || 0;
+  const disposition = String(struct.disposition?.type || '').toLowerCase();
+  const filename = struct.disposition?.params?.filename || struct.params?.name;
+  return disposition === 'attachment' || filename
+    ? { count: 1, bytes: size, partBytes: size }
+    : { count: 0, bytes: 0, partBytes: size };
+}
+
+// Lower-cased addresses of a node-imap envelope address list, groups flattened
+function envelopeAddresses(list: any[] | null | undefined): string[] {
+  return (list || [])
+    .flatMap((entry: any) => entry.addresses || [entry])
+    .filter((address: any) => address.mailbox)
+    .map((address: any) => `${address.mailbox}${address.host ? `@${address.host}` : ''}`.toLowerCase());
+}
+
+// Parse YYYY-MM-DD as a local date; node-imap formats search dates in local time
+export function parseSearchDate(field: string, value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+  if (!date || isNaN(date.getTime())) {
+    throw new MailError('INVALID_ARGUMENT', `${field} must be an ISO date (YYYY-MM-DD), got "${value}"`);
+  }
+  return date;
+}
+
+// Negate a single node-imap search term ('SEEN' -> '!SEEN', ['FROM', x] -> ['!FROM', x])
+function negateSearchTerm(term: any): any {
+  return Array.isArray(term) ? [`!${term[0]}`, ...term.slice(1)] : `!${term}`;
+}
+
+function isOrTerm(term: any): boolean {
+  return Array.isArray(term) && term[0] === 'OR';
+}
+
+// Fill the envelope fields of a summary from parsed header fields
+function applySummaryHeaders(email: Partial<EmailSummary>, headers: Record<string, string[]>): void {
+  email.subject = headers.subject?.[0] || '(No Subject)';
+  email.from = headers.from?.[0] || '';
+  email.to = headers.to?.[0] || '';
+  const dateString = headers.date?.[0];
+  if (dateString) {
+    const parsedDate = new Date(dateString);
+    email.date = isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
+  } else {
+    email.date = new Date();
+  }
+  email.messageId = parseMessageIds(headers['message-id']?.[0])[0];
+  email.inReplyTo = parseMessageIds(headers['in-reply-to']?.[0])[0];
+  const references = parseMessageIds(headers.references?.join(' '));
+  email.references = references.length > 0 ? references : undefined;
+}
+
+const MAX_FILENAME_LENGTH = 200;
+
+/**
+ * Reduce an attachment filename to a single safe path segment: no
+ * directories, control or reserved characters, or leading dots.
+ */
+export function sanitizeFilename(filename: string): string {
+  const cleaned = path.basename(filename.replace(/\\/g, '/'))
+    .replace(/[\x00-\x1f\x7f<>:"/\\|?*]/g, '_')
+    .replace(/^[.\s]+/, '')
+    .trim();
+
+  if (!cleaned) return 'attachment';
+  if (cleaned.length <= MAX_FILENAME_LENGTH) return cleaned;
+
+  const ext = path.extname(cleaned).slice(0, 20);
+  return cleaned.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+function matchesContentType(contentType: string, wanted: string): boolean {
+  const actual = contentType.toLowerCase();
+  const target = wanted.toLowerCase();
+  return target.endsWith('/*') ? actual.startsWith(target.slice(0, -1)) : actual === target;
+}
+
+// Write with O_EXCL so an existing file is never overwritten; add " (n)" on collision
+async function writeUniqueFile(directory: string, filename: string, content: Buffer): Promise<string> {
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const candidate = path.join(directory, attempt === 0 ? filename : `${stem} (${attempt})${ext}`);
+    try {
+      await writeFile(candidate, content, { flag: 'wx' });
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+
+  throw new Error(`Could not find a free filename for ${filename}`);
+}
+
 export class MailService {
   private transporter: nodemailer.Transporter;
-  private imap: Imap;
+  private pool: ImapPool;
   private config: MailConfig;
-  private isConnected = false;
+  private journal?: OperationJournal;
 
-  constructor(config: MailConfig) {
+  constructor(config: MailConfig, journal?: OperationJournal) {
     this.config = config;
+    this.journal = journal;
     
     this.transporter = nodemailer.createTransport({
       host: config.smtp.host,
@@ -76,216 +452,1069 @@ export class MailService {
       auth: config.smtp.auth,
     });
 
-    this.imap = new Imap({
-      host: config.imap.host,
-      port: config.imap.port,
-      tls: config.imap.tls,
-      user: config.imap.user,
-      password: config.imap.password,
-      tlsOptions: { rejectUnauthorized: false },
-    });
-
-    this.setupImapHandlers();
+    this.pool = new ImapPool(config.imap);
   }
 
-  private setupImapHandlers(): void {
-    this.imap.once('ready', () => {
-      this.isConnected = true;
-    });
+  // The IMAP client of the connection running the current task
+  private get imap(): Imap {
+    return this.pool.current().imap;
+  }
 
-    this.imap.once('error', (err: Error) => {
-      console.error('IMAP error:', err);
-      this.isConnected = false;
-    });
+  /**
+   * Run IMAP work on a pooled connection. Tasks on one connection never
+   * interleave, so a selected mailbox stays selected for the whole task.
+   * Writes are kept in order on one connection; reads may run in parallel
+   * on the others and are retried once if their connection drops.
+   */
+  private withImap<T>(mode: 'read' | 'write', task: () => Promise<T>): Promise<T> {
+    return this.pool.run(task, mode);
+  }
 
-    this.imap.once('end', () => {
-      this.isConnected = false;
-    });
+  private openMailbox(mailbox: string, readOnly: boolean, options: { refresh?: boolean } = {}): Promise<Imap.Box> {
+    return this.pool.current().openBox(mailbox, readOnly, options);
   }
 
+  // Open a connection up front, e.g. to check credentials at startup
   async connect(): Promise<void> {
-    if (this.isConnected) return;
-
-    return new Promise((resolve, reject) => {
-      this.imap.once('ready', () => {
-        this.isConnected = true;
-        resolve();
-      });
-
-      this.imap.once('error', reject);
-      this.imap.connect();
-    });
+    await this.withImap('write', async () => {});
   }
 
   async disconnect(): Promise<void> {
-    if (!this.isConnected) return;
-
-    return new Promise((resolve) => {
-      this.imap.once('end', resolve);
-      this.imap.end();
-    });
+    await this.pool.close();
   }
 
-  async sendMail(options: {
-    to: string | string[];
-    cc?: string | string[];
-    bcc?: string | string[];
-    subject: string;
-    text?: string;
-    html?: string;
-    attachments?: Array<{
-      filename: string;
-      content: string | Buffer;
-      contentType?: string;
-    }>;
-  }): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  async sendMail(options: SendMailOptions): Promise<SendMailResult> {
+    const { saveToSent, ...message } = options;
+    const date = new Date();
+
+    let info;
     try {
-      const info = await this.transporter.sendMail({
+      info = await this.transporter.sendMail({
         from: this.config.smtp.auth.user,
-        ...options,
+        date,
+        ...message,
       });
-
-      return {
-        success: true,
-        messageId: info.messageId,
-      };
     } catch (error) {
+      // Nodemailer attaches the RCPT TO outcome when every recipient was refused
+      const envelope = error as { rejected?: unknown[]; rejectedErrors?: unknown[] };
       return {
         success: false,
         error: error instanceof Error ? error.message : String(error),
+        recipients: envelope?.rejected ? this.recipientResults(envelope) : undefined,
       };
     }
+
+    const result: SendMailResult = {
+      success: true,
+      messageId: info.messageId,
+      recipients: this.recipientResults(info),
+    };
+
+    if (saveToSent ?? this.config.saveSentCopy !== false) {
+      // The message is already out; a failed copy is reported, not fatal
+      try {
+        Object.assign(result, await this.saveSentCopy(message, info.messageId, date));
+      } catch (error) {
+        result.sentCopyError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return result;
   }
 
-  async listMailboxes(): Promise<string[]> {
-    await this.connect();
+  async getSentMailbox(): Promise<string> {
+    if (this.config.mailboxes?.sent) return this.config.mailboxes.sent;
 
-    return new Promise((resolve, reject) => {
-      this.imap.getBoxes((err, boxes) => {
-        if (err) reject(err);
-        else {
-          const boxNames: string[] = [];
-          const extractBoxNames = (obj: any, prefix = '') => {
-            for (const key in obj) {
-              const fullName = prefix ? `${prefix}${obj[key].delimiter}${key}` : key;
-              boxNames.push(fullName);
-              if (obj[key].children) {
-                extractBoxNames(obj[key].children, fullName);
+    const sent = await this.findSpecialMailbox('\\Sent', SENT_MAILBOX_FALLBACKS);
+    if (!sent) {
+      throw new MailError('MAILBOX_NOT_FOUND', 'No Sent mailbox found; set SENT_MAILBOX to choose one');
+    }
+    return sent;
+  }
+
+  async getTrashMailbox(): Promise<string> {
+    if (this.config.mailboxes?.trash) return this.config.mailboxes.trash;
+
+    const trash = await this.findSpecialMailbox('\\Trash', TRASH_MAILBOX_FALLBACKS);
+    if (!trash) {
+      throw new MailError('MAILBOX_NOT_FOUND', 'No Trash mailbox found; set TRASH_MAILBOX to choose one, or delete permanently');
+    }
+    return trash;
+  }
+
+  // File the message we just sent (same Message-ID and Date, Bcc kept) in Sent
+  private async saveSentCopy(
+    message: Omit<SendMailOptions, 'saveToSent'>,
+    messageId: string,
+    date: Date
+  ): Promise<{ sentMailbox: string; sentUid?: number }> {
+    const sentMailbox = await this.getSentMailbox();
+    const { raw } = await this.buildRawMessage(message, { keepBcc: true, messageId, date });
+    const sentUid = await this.appendMessage(sentMailbox, raw, ['\\Seen']);
+    return { sentMailbox, sentUid };
+  }
+
+  private recipientResults(info: {
+    accepted?: unknown[];
+    rejected?: unknown[];
+    rejectedErrors?: unknown[];
+  }): RecipientResult[] {
+    const addressOf = (entry: any): string =>
+      typeof entry === 'string' ? entry : entry?.address || String(entry);
+
+    const reasons = new Map<string, string>();
+    for (const err of (info.rejectedErrors || []) as any[]) {
+      if (err?.recipient) {
+        reasons.set(String(err.recipient).toLowerCase(), err.response || err.message);
+      }
+    }
+
+    return [
+      ...(info.accepted || []).map(entry => ({ address: addressOf(entry), accepted: true })),
+      ...(info.rejected || []).map(entry => {
+        const address = addressOf(entry);
+        return { address, accepted: false, response: reasons.get(address.toLowerCase()) };
+      }),
+    ];
+  }
+
+  /**
+   * Render a message to RFC 822 bytes without sending it. Bcc is kept so
+   * drafts round-trip; the returned Message-ID identifies the copy.
+   */
+  async buildRawMessage(
+    options: DraftOptions,
+    buildOptions: { keepBcc?: boolean; messageId?: string; date?: Date } = {}
+  ): Promise<{ raw: Buffer; messageId: string }> {
+    const { saveToSent, ...message } = options;
+    const node = new MailComposer({
+      from: this.config.smtp.auth.user,
+      messageId: buildOptions.messageId,
+      date: buildOptions.date,
+      ...message,
+    }).compile();
+    node.keepBcc = !!buildOptions.keepBcc;
+
+    const raw = await node.build();
+    return { raw, messageId: node.messageId() };
+  }
+
+  /**
+   * IMAP APPEND a raw message. Resolves with the new UID when the server
+   * reports it (UIDPLUS APPENDUID), otherwise undefined.
+   */
+  async appendMessage(mailbox: string, raw: Buffer, flags: string[] = []): Promise<number | undefined> {
+    return this.withImap('write', async () => {
+      return new Promise((resolve, reject) => {
+        this.imap.append(raw, { mailbox, flags }, (err: Error, uid?: number) => {
+          if (err) return reject(err);
+          resolve(uid);
+        });
+      });
+    });
+  }
+
+  private async getDraftsMailbox(): Promise<string> {
+    if (this.config.mailboxes?.drafts) return this.config.mailboxes.drafts;
+
+    const drafts = await this.findSpecialMailbox('\\Drafts', DRAFTS_MAILBOX_FALLBACKS);
+    if (!drafts) {
+      throw new MailError('MAILBOX_NOT_FOUND', 'No Drafts mailbox found; set DRAFTS_MAILBOX to choose one');
+    }
+    return drafts;
+  }
+
+  private async storeDraft(mailbox: string, options: DraftOptions): Promise<number | undefined> {
+    const { raw, messageId } = await this.buildRawMessage(options, { keepBcc: true });
+    const uid = await this.appendMessage(mailbox, raw, ['\\Draft', '\\Seen']);
+    if (uid) return uid;
+
+    // No UIDPLUS: locate the copy we just stored by its Message-ID
+    const found = await this.findByMessageIds(mailbox, [messageId]);
+    return found.find(email => email.messageId === messageId)?.uid;
+  }
+
+  /**
+   * Save a new draft. With `replyTo`, the draft answers that email: it gets
+   * In-Reply-To and References so it stays in the thread once sent, and is
+   * addressed to the sender unless `to` is given.
+   */
+  async createDraft(
+    options: DraftOptions,
+    replyTo?: { mailbox: string; uid: number }
+  ): Promise<{ mailbox: string; uid?: number }> {
+    let draft = options;
+    if (replyTo) {
+      const original = await this.getEmailDetails(replyTo.mailbox, replyTo.uid);
+      if (!original) throw new MailError('UID_NOT_FOUND', `Email with UID ${replyTo.uid} not found`);
+      const reply = this.replyFields(original);
+      draft = {
+        ...options,
+        to: options.to ?? (reply.to.length > 0 ? reply.to : undefined),
+        inReplyTo: reply.inReplyTo,
+        references: reply.references,
+      };
+    }
+
+    const mailbox = await this.getDraftsMailbox();
+    return { mailbox, uid: await this.storeDraft(mailbox, draft) };
+  }
+
+  private draftToOptions(draft: EmailDetails): DraftOptions {
+    return {
+      to: draft.to || undefined,
+      cc: draft.cc,
+      bcc: draft.bcc,
+      subject: draft.subject,
+      text: draft.textContent,
+      html: draft.htmlContent,
+      inReplyTo: draft.inReplyTo,
+      references: draft.references,
+      attachments: draft.attachments
+        .filter(att => att.content)
+        .map(att => ({
+          filename: att.filename,
+          content: att.content!,
+          contentType: att.contentType,
+        })),
+    };
+  }
+
+  /**
+   * Replace a draft with an edited copy. Fields left undefined in `changes`
+   * keep their current value; the old draft is removed once the new one is
+   * stored.
+   */
+  async updateDraft(uid: number, changes: Partial<DraftOptions>): Promise<{ mailbox: string; uid?: number }> {
+    const mailbox = await this.getDraftsMailbox();
+    const draft = await this.getEmailDetails(mailbox, uid, { includeAttachmentContent: true });
+    if (!draft) throw new MailError('UID_NOT_FOUND', `Draft with UID ${uid} not found`);
+
+    const defined = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    ) as Partial<DraftOptions>;
+    const merged: DraftOptions = { ...this.draftToOptions(draft), ...defined };
+
+    const newUid = await this.storeDraft(mailbox, merged);
+    await this.removeDraft(mailbox, uid);
+
+    return { mailbox, uid: newUid };
+  }
+
+  // A superseded or sent draft is expunged without a journal entry; there is nothing to undo
+  private async removeDraft(mailbox: string, uid: number): Promise<void> {
+    await this.withImap('write', async () => {
+      await this.openMailbox(mailbox, false);
+      await this.storeFlags([uid], ['\\Deleted'], 'add');
+      await this.expungeUids([uid]);
+    });
+  }
+
+  async listDrafts(): Promise<{ mailbox: string; drafts: EmailSummary[] }> {
+    const mailbox = await this.getDraftsMailbox();
+    const drafts = await this.searchEmails({ mailbox });
+    return { mailbox, drafts };
+  }
+
+  async sendDraft(uid: number): Promise<SendMailResult> {
+    const mailbox = await this.getDraftsMailbox();
+    const draft = await this.getEmailDetails(mailbox, uid, { includeAttachmentContent: true });
+    if (!draft) throw new MailError('UID_NOT_FOUND', `Draft with UID ${uid} not found`);
+
+    const { to, ...options } = this.draftToOptions(draft);
+    if (!to && !options.cc && !options.bcc) {
+      throw new MailError('INVALID_ARGUMENT', `Draft with UID ${uid} has no recipients`);
+    }
+
+    const result = await this.sendMail({ to: to || [], ...options });
+    if (result.success) {
+      await this.removeDraft(mailbox, uid);
+    }
+    return result;
+  }
+
+  private ownAddresses(): Set<string> {
+    return new Set(
+      [this.config.smtp.auth.user, this.config.imap.user].map(a => a.toLowerCase())
+    );
+  }
+
+  private quoteText(original: EmailDetails): string {
+    const quoted = (original.textContent || '')
+      .split(/\r?\n/)
+      .map(line => `> ${line}`)
+      .join('\n');
+    return `On ${original.date.toUTCString()}, ${original.from} wrote:\n${quoted}`;
+  }
+
+  private forwardedHeaderBlock(original: EmailDetails): string {
+    return [
+      '---------- Forwarded message ----------',
+      `From: ${original.from}`,
+      `Date: ${original.date.toUTCString()}`,
+      `Subject: ${original.subject}`,
+      `To: ${original.to}`,
+      ...(original.cc ? [`Cc: ${original.cc}`] : []),
+    ].join('\n');
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  async replyToEmail(
+    mailbox: string,
+    uid: number,
+    options: {
+      text?: string;
+      html?: string;
+      replyAll?: boolean;
+      attachments?: SendMailOptions['attachments'];
+    }
+  ): Promise<SendMailResult & { to?: string[]; cc?: string[] }> {
+    const original = await this.getEmailDetails(mailbox, uid);
+    if (!original) throw new MailError('UID_NOT_FOUND', `Email with UID ${uid} not found`);
+
+    const { to, cc, subject, inReplyTo, references } = this.replyFields(original, options.replyAll);
+    if (to.length === 0) {
+      throw new MailError('INVALID_ARGUMENT', 'Could not determine reply recipients');
+    }
+
+    const result = await this.sendMail({
+      to,
+      cc: cc.length > 0 ? cc : undefined,
+      subject,
+      text: `${options.text || ''}\n\n${this.quoteText(original)}`,
+      html: options.html
+        ? `${options.html}<br><blockquote>${original.htmlContent || this.escapeHtml(original.textContent || '').replace(/\n/g, '<br>')}</blockquote>`
+        : undefined,
+      inReplyTo,
+      references,
+      attachments: options.attachments,
+    });
+
+    return { ...result, to, cc };
+  }
+
+  // Recipients, subject and threading headers of a reply to `original`
+  private replyFields(original: EmailDetails, replyAll = false): {
+    to: string[];
+    cc: string[];
+    subject: string;
+    inReplyTo?: string;
+    references?: string[];
+  } {
+    const own = this.ownAddresses();
+    const seen = new Set<string>();
+    const pick = (field: string | undefined): string[] =>
+      addressparser(field || '', { flatten: true })
+        .map(a => a.address)
+        .filter(address => {
+          const key = address?.toLowerCase();
+          if (!key || own.has(key) || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+
+    let to = pick(original.replyTo || original.from);
+
+    // Replying to our own sent message: address the original recipients instead
+    if (to.length === 0) {
+      to = pick(original.to);
+    }
+
+    const cc = replyAll ? pick([original.to, original.cc].filter(Boolean).join(', ')) : [];
+    const references = [...(original.references || []), ...(original.messageId ? [original.messageId] : [])];
+
+    return {
+      to,
+      cc,
+      subject: /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`,
+      inReplyTo: original.messageId,
+      references: references.length > 0 ? references : undefined,
+    };
+  }
+
+  async forwardEmail(
+    mailbox: string,
+    uid: number,
+    options: {
+      to: string | string[];
+      cc?: string | string[];
+      text?: string;
+      html?: string;
+      includeAttachments?: boolean;
+    }
+  ): Promise<SendMailResult & { attachmentCount: number }> {
+    const includeAttachments = options.includeAttachments !== false;
+    const original = await this.getEmailDetails(mailbox, uid, {
+      includeAttachmentContent: includeAttachments,
+    });
+    if (!original) throw new MailError('UID_NOT_FOUND', `Email with UID ${uid} not found`);
+
+    const subject = /^fwd?:/i.test(original.subject) ? original.subject : `Fwd: ${original.subject}`;
+    const headerBlock = this.forwardedHeaderBlock(original);
+    const attachments = includeAttachments
+      ? original.attachments
+          .filter(att => att.content)
+          .map(att => ({
+            filename: att.filename,
+            content: att.content!,
+            contentType: att.contentType,
+          }))
+      : [];
+
+    const result = await this.sendMail({
+      to: options.to,
+      cc: options.cc,
+      subject,
+      text: `${options.text || ''}\n\n${headerBlock}\n\n${original.textContent || ''}`,
+      html: options.html
+        ? `${options.html}<br><br>${this.escapeHtml(headerBlock).replace(/\n/g, '<br>')}<br><br>${original.htmlContent || this.escapeHtml(original.textContent || '').replace(/\n/g, '<br>')}`
+        : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    });
+
+    return { ...result, attachmentCount: attachments.length };
+  }
+
+  async listMailboxes(): Promise<string[]> {
+    return this.withImap('read', async () => {
+      return new Promise((resolve, reject) => {
+        this.imap.getBoxes((err, boxes) => {
+          if (err) reject(err);
+          else {
+            const boxNames: string[] = [];
+            const extractBoxNames = (obj: any, prefix = '') => {
+              for (const key in obj) {
+                const fullName = prefix ? `${prefix}${obj[key].delimiter}${key}` : key;
+                boxNames.push(fullName);
+                if (obj[key].children) {
+                  extractBoxNames(obj[key].children, fullName);
+                }
               }
-            }
-          };
-          extractBoxNames(boxes);
-          resolve(boxNames);
-        }
+            };
+            extractBoxNames(boxes);
+            resolve(boxNames);
+          }
+        });
       });
     });
   }
 
   async createMailbox(name: string): Promise<void> {
-    await this.connect();
-    
-    return new Promise((resolve, reject) => {
-      this.imap.addBox(name, (err) => {
-        if (err) reject(err);
-        else resolve();
+    return this.withImap('write', async () => {
+      return new Promise((resolve, reject) => {
+        this.imap.addBox(name, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
       });
     });
   }
 
   async deleteMailbox(name: string): Promise<void> {
-    await this.connect();
-    
-    return new Promise((resolve, reject) => {
-      this.imap.delBox(name, (err) => {
-        if (err) reject(err);
-        else resolve();
+    return this.withImap('write', async () => {
+      // Don't keep treating a deleted mailbox as selected
+      this.pool.current().deselect();
+
+      return new Promise((resolve, reject) => {
+        this.imap.delBox(name, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
       });
     });
   }
 
   async searchEmails(criteria: SearchCriteria): Promise<EmailSummary[]> {
-    await this.connect();
-    
-    const mailbox = criteria.mailbox || 'INBOX';
+    return this.withImap('read', async () => {
+      const mailbox = criteria.mailbox || 'INBOX';
+
+      await this.openMailbox(mailbox, true);
+
+      // Newest first; only the first `limit` UIDs are fetched
+      const uids = (await this.searchUids(criteria)).sort((a, b) => b - a);
+      if (criteria.hasAttachments === undefined) {
+        return this.fetchSummaries(criteria.limit ? uids.slice(0, criteria.limit) : uids);
+      }
+
+      // Attachments are only visible in BODYSTRUCTURE, so fetch in batches until the limit is filled
+      const emails: EmailSummary[] = [];
+      for (let i = 0; i < uids.length; i += SEARCH_FETCH_BATCH) {
+        const batch = await this.fetchSummaries(uids.slice(i, i + SEARCH_FETCH_BATCH));
+        emails.push(...batch.filter(email => !!email.hasAttachments === criteria.hasAttachments));
+        if (criteria.limit && emails.length >= criteria.limit) {
+          return emails.slice(0, criteria.limit);
+        }
+      }
+      return emails;
+    });
+  }
+
+  /**
+   * Translate criteria into node-imap search terms. Returns null when an
+   * OR/NOT group holds several terms, which node-imap cannot nest in a
+   * single SEARCH; searchUids then resolves those groups separately.
+   */
+  private buildSearchTerms(criteria: SearchCriteria, nested = false): any[] | null {
+    if (nested && criteria.hasAttachments !== undefined) {
+      throw new MailError('INVALID_ARGUMENT', 'hasAttachments cannot be used inside and/or/not groups');
+    }
+
+    const terms = this.buildBaseSearchTerms(criteria);
+
+    for (const group of criteria.and || []) {
+      const groupTerms = this.buildSearchTerms(group, true);
+      if (!groupTerms) return null;
+      terms.push(...groupTerms);
+    }
+
+    if (criteria.or && criteria.or.length > 0) {
+      const branches = criteria.or.map(group => this.buildSearchTerms(group, true));
+      if (branches.some(branch => !branch || branch.length !== 1)) return null;
+      terms.push(branches.map(branch => branch![0]).reduce((left, right) => ['OR', left, right]));
+    }
+
+    if (criteria.not) {
+      const negated = this.buildSearchTerms(criteria.not, true);
+      if (!negated || negated.length !== 1 || isOrTerm(negated[0])) return null;
+      terms.push(negateSearchTerm(negated[0]));
+    }
+
+    return terms;
+  }
+
+  private buildBaseSearchTerms(criteria: SearchCriteria): any[] {
+    const terms: any[] = [];
+
+    if (criteria.unreadOnly) terms.push('UNSEEN');
+    if (criteria.from) terms.push(['FROM', criteria.from]);
+    if (criteria.to) terms.push(['TO', criteria.to]);
+    if (criteria.cc) terms.push(['CC', criteria.cc]);
+    if (criteria.bcc) terms.push(['BCC', criteria.bcc]);
+    if (criteria.subject) terms.push(['SUBJECT', criteria.subject]);
+    if (criteria.body) terms.push(['BODY', criteria.body]);
+    if (criteria.text) terms.push(['TEXT', criteria.text]);
+    if (criteria.header) terms.push(['HEADER', criteria.header.name, criteria.header.value]);
+
+    if (criteria.flagged !== undefined) terms.push(criteria.flagged ? 'FLAGGED' : 'UNFLAGGED');
+    if (criteria.answered !== undefined) terms.push(criteria.answered ? 'ANSWERED' : 'UNANSWERED');
+    if (criteria.keyword) terms.push(['KEYWORD', criteria.keyword]);
+    for (const flag of criteria.flags || []) {
+      const system = SYSTEM_FLAG_CRITERIA[flag.replace(/^\\/, '').toLowerCase()];
+      terms.push(system || ['KEYWORD', flag]);
+    }
+
+    if (criteria.larger !== undefined) terms.push(['LARGER', criteria.larger]);
+    if (criteria.smaller !== undefined) terms.push(['SMALLER', criteria.smaller]);
+
+    if (criteria.uid) {
+      const parts = criteria.uid.split(',').map(part => part.trim());
+      if (parts.some(part => !UID_SET_PATTERN.test(part))) {
+        throw new MailError('INVALID_ARGUMENT', `Invalid UID set "${criteria.uid}"; use e.g. "100:200" or "5,9,20:*"`);
+      }
+      terms.push(['UID', ...parts]);
+    }
+
+    if (criteria.sinceDays) {
+      const date = new Date();
+      date.setDate(date.getDate() - criteria.sinceDays);
+      terms.push(['SINCE', date.toISOString().split('T')[0]]);
+    }
     
+    if (criteria.beforeDays) {
+      const date = new Date();
+      date.setDate(date.getDate() - criteria.beforeDays);
+      terms.push(['BEFORE', date.toISOString().split('T')[0]]);
+    }
+
+    if (criteria.sinceDate) terms.push(['SINCE', parseSearchDate('sinceDate', criteria.sinceDate)]);
+    if (criteria.beforeDate) terms.push(['BEFORE', parseSearchDate('beforeDate', criteria.beforeDate)]);
+
+    return terms;
+  }
+
+  // UIDs matching the criteria in the currently open mailbox
+  private async searchUids(criteria: SearchCriteria): Promise<number[]> {
+    const terms = this.buildSearchTerms(criteria);
+    if (terms) return this.runSearch(terms);
+
+    // Groups node-imap can't nest are searched on their own and combined here
+    let uids = await this.runSearch(this.buildBaseSearchTerms(criteria));
+
+    for (const group of criteria.and || []) {
+      const matched = new Set(await this.searchUids(group));
+      uids = uids.filter(uid => matched.has(uid));
+    }
+
+    if (criteria.or && criteria.or.length > 0) {
+      const matched = new Set<number>();
+      for (const group of criteria.or) {
+        (await this.searchUids(group)).forEach(uid => matched.add(uid));
+      }
+      uids = uids.filter(uid => matched.has(uid));
+    }
+
+    if (criteria.not) {
+      const excluded = new Set(await this.searchUids(criteria.not));
+      uids = uids.filter(uid => !excluded.has(uid));
+    }
+
+    return uids;
+  }
+
+  // node-imap adds CHARSET UTF-8 itself when a term contains non-ASCII text
+  private runSearch(terms: any[]): Promise<number[]> {
     return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
+      this.imap.search(terms.length > 0 ? terms : ['ALL'], (err, uids) => {
         if (err) return reject(err);
+        resolve(uids || []);
+      });
+    });
+  }
 
-        const searchCriteria: any[] = [];
-        
-        if (criteria.unreadOnly) searchCriteria.push('UNSEEN');
-        if (criteria.from) searchCriteria.push(['FROM', criteria.from]);
-        if (criteria.to) searchCriteria.push(['TO', criteria.to]);
-        if (criteria.subject) searchCriteria.push(['SUBJECT', criteria.subject]);
-        if (criteria.body) searchCriteria.push(['BODY', criteria.body]);
-        
-        if (criteria.sinceDays) {
-          const date = new Date();
-          date.setDate(date.getDate() - criteria.sinceDays);
-          searchCriteria.push(['SINCE', date.toISOString().split('T')[0]]);
+  /**
+   * One page of a mailbox, newest first by default. Only the UIDs of the
+   * requested page are fetched. Ordering uses IMAP SORT by date when the
+   * server supports it, otherwise UID order. The returned cursor pins the
+   * listing to the UIDs that existed on the first page, so later pages do
+   * not shift when new mail arrives.
+   */
+  async listEmailsPage(
+    mailbox: string,
+    options: { page?: number; pageSize: number; cursor?: string; order?: 'newest' | 'oldest' }
+  ): Promise<EmailPage> {
+    return this.withImap('read', async () => {
+      // Selected again so UIDNEXT, HIGHESTMODSEQ and the message count are current
+      const box = await this.openMailbox(mailbox, true, { refresh: true });
+
+      let state: PageCursor;
+      if (options.cursor) {
+        state = decodePageCursor(options.cursor);
+        if (state.source !== 'server') {
+          throw new MailError('INVALID_ARGUMENT', 'Cursor belongs to a listing from the local index; continue with source "auto" or "index", or start again without a cursor');
         }
-        
-        if (criteria.beforeDays) {
-          const date = new Date();
-          date.setDate(date.getDate() - criteria.beforeDays);
-          searchCriteria.push(['BEFORE', date.toISOString().split('T')[0]]);
+        if (state.uidValidity !== box.uidvalidity) {
+          throw new MailError('INVALID_ARGUMENT', 'Cursor is no longer valid for this mailbox (UIDVALIDITY changed); start again without a cursor');
         }
+      } else {
+        state = {
+          uidValidity: box.uidvalidity,
+          maxUid: box.uidnext - 1,
+          offset: Math.max((options.page || 1) - 1, 0) * options.pageSize,
+          order: options.order || 'newest',
+          source: 'server',
+        };
+      }
 
-        if (searchCriteria.length === 0) {
-          searchCriteria.push('ALL');
+      const pageSize = options.pageSize;
+      const sortedBy: EmailPage['sortedBy'] = this.imap.serverSupports('SORT') ? 'date' : 'uid';
+      const range = [['UID', `1:${Math.max(state.maxUid, 1)}`]];
+
+      const uids = state.maxUid < 1 ? [] : await new Promise<number[]>((resolve, reject) => {
+        if (sortedBy === 'date') {
+          this.imap.sort([state.order === 'newest' ? '-DATE' : 'DATE'], range, (err, result) =>
+            err ? reject(err) : resolve(result || [])
+          );
+        } else {
+          this.imap.search(range, (err, result) => {
+            if (err) return reject(err);
+            resolve([...(result || [])].sort((a, b) => state.order === 'newest' ? b - a : a - b));
+          });
         }
+      });
+
+      const pageUids = uids.slice(state.offset, state.offset + pageSize);
+      const emails = await this.fetchSummaries(pageUids);
+      const nextOffset = state.offset + pageUids.length;
+
+      return {
+        emails,
+        total: uids.length,
+        page: Math.floor(state.offset / pageSize) + 1,
+        pageSize,
+        totalPages: Math.ceil(uids.length / pageSize),
+        offset: state.offset,
+        sortedBy,
+        nextCursor: nextOffset < uids.length
+          ? encodePageCursor({ ...state, offset: nextOffset })
+          : undefined,
+      };
+    });
+  }
+
+  // Fetch envelope headers and attributes for UIDs in the currently open mailbox,
+  // returned in the order the UIDs were given
+  private fetchSummaries(uids: number[]): Promise<EmailSummary[]> {
+    if (!uids || uids.length === 0) return Promise.resolve([]);
+
+    const position = new Map(uids.map((uid, index) => [uid, index]));
+
+    return new Promise((resolve, reject) => {
+      const emails: EmailSummary[] = [];
+      const fetch = this.imap.fetch(uids, {
+        bodies: 'HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID IN-REPLY-TO REFERENCES)',
+        struct: true,
+      });
+
+      fetch.on('message', (msg, seqno) => {
+        const email: Partial<EmailSummary> = { uid: seqno };
+        
+        msg.on('body', (stream) => {
+          let buffer = '';
+          stream.on('data', (chunk) => buffer += chunk.toString('utf8'));
+          stream.once('end', () => applySummaryHeaders(email, Imap.parseHeader(buffer)));
+        });
+
+        msg.once('attributes', (attrs) => {
+          email.uid = attrs.uid;
+          email.flags = attrs.flags;
+          email.size = attrs.size;
+          
+          if (attrs.struct) {
+            email.hasAttachments = this.hasAttachments(attrs.struct);
+          }
+        });
+
+        msg.once('end', () => {
+          emails.push(email as EmailSummary);
+        });
+      });
+
+      fetch.once('error', reject);
+      fetch.once('end', () => resolve(
+        emails.sort((a, b) => (position.get(a.uid) ?? 0) - (position.get(b.uid) ?? 0))
+      ));
+    });
+  }
+
+  /**
+   * Work out what changed in a mailbox since `known` was recorded, for the
+   * local index. New messages are found by comparing UID lists, flag changes
+   * via CONDSTORE CHANGEDSINCE when available (otherwise all flags are
+   * refetched), and expunged UIDs by what is no longer on the server
+   * (QRESYNC VANISHED would avoid the full UID list, but node-imap cannot
+   * parse it). The UID list is skipped when UIDNEXT and the message count
+   * are unchanged.
+   */
+  async fetchMailboxChanges(
+    mailbox: string,
+    known: (MailboxSyncState & { uids: number[] }) | undefined,
+    options: { bodies?: boolean } = {}
+  ): Promise<MailboxChanges> {
+    return this.withImap('read', async () => {
+      // Selected again so UIDNEXT, HIGHESTMODSEQ and the message count are current
+      const box = await this.openMailbox(mailbox, true, { refresh: true });
+
+      const state: MailboxSyncState = {
+        uidValidity: box.uidvalidity,
+        uidNext: box.uidnext,
+        highestModSeq: box.highestmodseq,
+      };
+      const condstore = box.highestmodseq !== undefined;
+      const reset = !known || known.uidValidity !== box.uidvalidity;
+
+      // Same UIDNEXT and message count: nothing arrived, so nothing can have been expunged either
+      const sameMessages = !reset && known!.uidNext === box.uidnext && known!.uids.length === box.messages.total;
+      const current = sameMessages ? known!.uids : box.messages.total > 0 ? await this.runSearch(['ALL']) : [];
+      const currentSet = new Set(current);
+      const knownSet = new Set(reset ? [] : known!.uids);
+
+      const flags = new Map<number, string[]>();
+      if (!reset && knownSet.size > 0 && box.messages.total > 0) {
+        const unchanged = condstore && known!.highestModSeq === box.highestmodseq;
+        if (!unchanged) {
+          const changedSince = condstore && known!.highestModSeq ? known!.highestModSeq : undefined;
+          const fetched = await this.fetchFlags(changedSince);
+          fetched.forEach((value, uid) => {
+            if (knownSet.has(uid)) flags.set(uid, value);
+          });
+        }
+      }
+
+      const added: IndexedEmail[] = [];
+      const newUids = current.filter(uid => !knownSet.has(uid)).sort((a, b) => a - b);
+      for (let i = 0; i < newUids.length; i += INDEX_FETCH_BATCH) {
+        added.push(...await this.fetchIndexedEmails(newUids.slice(i, i + INDEX_FETCH_BATCH), options.bodies));
+      }
+
+      return {
+        state,
+        reset,
+        added,
+        flags,
+        removed: [...knownSet].filter(uid => !currentSet.has(uid)),
+        condstore,
+      };
+    });
+  }
+
+  // Flags of every message in the open mailbox, or only those changed since a MODSEQ
+  private fetchFlags(changedSince?: string): Promise<Map<number, string[]>> {
+    return new Promise((resolve, reject) => {
+      const flags = new Map<number, string[]>();
+      const fetch = this.imap.fetch('1:*', changedSince ? { modifiers: { changedsince: changedSince } } : {});
+
+      fetch.on('message', (msg) => {
+        msg.once('attributes', (attrs) => flags.set(attrs.uid, attrs.flags));
+      });
+      fetch.once('error', reject);
+      fetch.once('end', () => resolve(flags));
+    });
+  }
+
+  // Like fetchSummaries, plus Cc/Bcc, the internal date and optionally the plain text body
+  private fetchIndexedEmails(uids: number[], bodies = false): Promise<IndexedEmail[]> {
+    if (uids.length === 0) return Promise.resolve([]);
+
+    return new Promise((resolve, reject) => {
+      const emails: IndexedEmail[] = [];
+      const parsing: Promise<void>[] = [];
+      const fetch = this.imap.fetch(uids, {
+        bodies: bodies ? [INDEX_HEADER_FIELDS, 'TEXT'] : INDEX_HEADER_FIELDS,
+        struct: true,
+        size: true,
+      });
+
+      fetch.on('message', (msg) => {
+        const email: Partial<IndexedEmail> = {};
+        let headerBuffer = '';
+        const textChunks: Buffer[] = [];
+
+        msg.on('body', (stream, info) => {
+          const isHeader = info.which.toUpperCase().startsWith('HEADER');
+          stream.on('data', (chunk: Buffer) => {
+            if (isHeader) headerBuffer += chunk.toString('utf8');
+            else textChunks.push(chunk);
+          });
+        });
+
+        msg.once('attributes', (attrs) => {
+          email.uid = attrs.uid;
+          email.flags = attrs.flags;
+          email.size = attrs.size;
+          email.internalDate = attrs.date;
+          if (attrs.struct) {
+            email.hasAttachments = this.hasAttachments(attrs.struct);
+          }
+        });
+
+        msg.once('end', () => {
+          const headers = Imap.parseHeader(headerBuffer);
+          applySummaryHeaders(email, headers);
+          email.cc = headers.cc?.join(', ');
+          email.bcc = headers.bcc?.join(', ');
+          emails.push(email as IndexedEmail);
+
+          if (bodies) {
+            // Re-attach the headers so the body's MIME structure can be decoded
+            const raw = Buffer.concat([Buffer.from(headerBuffer, 'utf8'), ...textChunks]);
+            parsing.push(
+              simpleParser(raw)
+                .then(parsed => {
+                  email.text = (parsed.text || '').slice(0, INDEX_TEXT_MAX_CHARS);
+                })
+                .catch(() => {
+                  email.text = '';
+                })
+            );
+          }
+        });
+      });
+
+      fetch.once('error', reject);
+      fetch.once('end', () => {
+        Promise.all(parsing).then(() => resolve(emails), reject);
+      });
+    });
+  }
+
+  async getEmailSummaries(mailbox: string, uids: number[]): Promise<EmailSummary[]> {
+    return this.withImap('read', async () => {
+      await this.openMailbox(mailbox, true);
+      return this.fetchSummaries(uids);
+    });
+  }
+
+  /**
+   * Find messages whose Message-ID, In-Reply-To or References header
+   * mentions any of the given IDs.
+   */
+  async findByMessageIds(mailbox: string, messageIds: string[]): Promise<EmailSummary[]> {
+    return this.withImap('read', async () => {
+      if (messageIds.length === 0) return [];
+
+      const terms: any[] = messageIds.flatMap(id => [
+        ['HEADER', 'MESSAGE-ID', id],
+        ['HEADER', 'IN-REPLY-TO', id],
+        ['HEADER', 'REFERENCES', id],
+      ]);
+      const criteria = terms.reduce((acc, term) => ['OR', acc, term]);
 
-        this.imap.search(searchCriteria, (err, uids) => {
+      await this.openMailbox(mailbox, true);
+      return this.fetchSummaries(await this.runSearch([criteria]));
+    });
+  }
+
+  /**
+   * UIDs in the same server-side thread as `uid` (IMAP THREAD=REFERENCES),
+   * or null when the server does not advertise the extension.
+   */
+  async getThreadUids(mailbox: string, uid: number): Promise<number[] | null> {
+    return this.withImap('read', async () => {
+      if (!this.imap.serverSupports('THREAD=REFERENCES')) return null;
+
+      const flatten = (node: ThreadTree): number[] =>
+        Array.isArray(node) ? node.flatMap(flatten) : [node];
+
+      await this.openMailbox(mailbox, true);
+      return new Promise<number[]>((resolve, reject) => {
+        (this.imap as Imap & ThreadingImap).thread('REFERENCES', ['ALL'], (err, threads) => {
           if (err) return reject(err);
-          if (!uids || uids.length === 0) return resolve([]);
+          const match = (threads || []).map(flatten).find(members => members.includes(uid));
+          resolve(match || [uid]);
+        });
+      });
+    });
+  }
+
+  /**
+   * Resolve a special-use mailbox (RFC 6154), e.g. '\Sent' or '\Trash',
+   * falling back to common folder names when the server has no SPECIAL-USE.
+   */
+  async findSpecialMailbox(attribute: string, fallbacks: string[] = []): Promise<string | undefined> {
+    return this.withImap('read', async () => {
+      const boxes = await new Promise<Imap.MailBoxes>((resolve, reject) => {
+        this.imap.getBoxes((err, boxes) => err ? reject(err) : resolve(boxes));
+      });
+
+      const names: string[] = [];
+      const search = (obj: Imap.MailBoxes, prefix = ''): string | undefined => {
+        for (const key in obj) {
+          const fullName = prefix ? `${prefix}${obj[key].delimiter}${key}` : key;
+          names.push(fullName);
+          if (obj[key].attribs?.some(a => a.toLowerCase() === attribute.toLowerCase())) {
+            return fullName;
+          }
+          if (obj[key].children) {
+            const found = search(obj[key].children, fullName);
+            if (found) return found;
+          }
+        }
+        return undefined;
+      };
 
-          const emails: EmailSummary[] = [];
-          const fetch = this.imap.fetch(uids, {
-            bodies: 'HEADER.FIELDS (FROM TO SUBJECT DATE)',
-            struct: true,
+      const special = search(boxes);
+      if (special) return special;
+
+      return fallbacks
+        .map(fallback => names.find(name => name.toLowerCase() === fallback.toLowerCase()))
+        .find((name): name is string => !!name);
+    });
+  }
+
+  async fetchHeaders(
+    mailbox: string,
+    uids: number[],
+    fields: string[]
+  ): Promise<Map<number, Record<string, string>>> {
+    return this.withImap('read', async () => {
+      const result = new Map<number, Record<string, string>>();
+      if (uids.length === 0 || fields.length === 0) return result;
+
+      await this.openMailbox(mailbox, true);
+
+      return new Promise((resolve, reject) => {
+        const fetch = this.imap.fetch(uids, {
+          bodies: `HEADER.FIELDS (${fields.map(f => f.toUpperCase()).join(' ')})`,
+        });
+
+        fetch.on('message', (msg) => {
+          let buffer = '';
+          let uid = 0;
+
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk) => buffer += chunk.toString('utf8'));
           });
 
-          fetch.on('message', (msg, seqno) => {
-            const email: Partial<EmailSummary> = { uid: seqno };
-            
-            msg.on('body', (stream) => {
-              let buffer = '';
-              stream.on('data', (chunk) => buffer += chunk.toString('utf8'));
-              stream.once('end', () => {
-                const headers = Imap.parseHeader(buffer);
-                email.subject = headers.subject?.[0] || '(No Subject)';
-                email.from = headers.from?.[0] || '';
-                email.to = headers.to?.[0] || '';
-                const dateString = headers.date?.[0];
-                if (dateString) {
-                  const parsedDate = new Date(dateString);
-                  email.date = isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
-                } else {
-                  email.date = new Date();
-                }
-              });
-            });
-
-            msg.once('attributes', (attrs) => {
-              email.uid = attrs.uid;
-              email.flags = attrs.flags;
-              email.size = attrs.size;
-              
-              if (attrs.struct) {
-                email.hasAttachments = this.hasAttachments(attrs.struct);
-              }
-            });
+          msg.once('attributes', (attrs) => {
+            uid = attrs.uid;
+          });
 
-            msg.once('end', () => {
-              emails.push(email as EmailSummary);
-            });
+          msg.once('end', () => {
+            const parsed = Imap.parseHeader(buffer);
+            const headers: Record<string, string> = {};
+            for (const key in parsed) {
+              headers[key.toLowerCase()] = parsed[key].join(', ');
+            }
+            result.set(uid, headers);
           });
+        });
+
+        fetch.once('error', reject);
+        fetch.once('end', () => resolve(result));
+      });
+    });
+  }
 
-          fetch.once('error', reject);
-          fetch.once('end', () => resolve(emails));
+  /**
+   * Envelope, size and BODYSTRUCTURE of the newest `limit` messages (all when
+   * unset), optionally only those received in the last `sinceDays` days. No
+   * headers or bodies are downloaded. `matched` counts the messages the
+   * date filter selected before the limit was applied.
+   */
+  async fetchMessageStats(
+    mailbox: string,
+    options: { sinceDays?: number; limit?: number } = {}
+  ): Promise<{ total: number; matched: number; messages: MessageStat[] }> {
+    return this.withImap('read', async () => {
+      const box = await this.openMailbox(mailbox, true);
+      const uids = (await this.searchUids({ sinceDays: options.sinceDays })).sort((a, b) => b - a);
+      const selected = options.limit ? uids.slice(0, options.limit) : uids;
+
+      const messages: MessageStat[] = [];
+      for (let i = 0; i < selected.length; i += STATS_FETCH_BATCH) {
+        messages.push(...await this.fetchStatsBatch(selected.slice(i, i + STATS_FETCH_BATCH)));
+      }
+      return { total: box.messages.total, matched: uids.length, messages };
+    });
+  }
+
+  private fetchStatsBatch(uids: number[]): Promise<MessageStat[]> {
+    return new Promise((resolve, reject) => {
+      const messages: MessageStat[] = [];
+      const fetch = this.imap.fetch(uids, { envelope: true, struct: true, size: true });
+
+      fetch.on('message', (msg) => {
+        msg.once('attributes', (attrs) => {
+          const envelope = attrs.envelope;
+          const sender = (envelope?.from || []).find((address: any) => address.mailbox);
+          const sentDate = envelope?.date && !isNaN(envelope.date.getTime()) ? envelope.date : undefined;
+          const { count, bytes, partBytes } = partTotals(attrs.struct);
+          messages.push({
+            uid: attrs.uid,
+            messageId: parseMessageIds(envelope?.messageId || undefined)[0],
+            from: envelopeAddresses(envelope?.from)[0] || '',
+            fromName: sender?.name || undefined,
+            to: envelopeAddresses(envelope?.to),
+            subject: envelope?.subject || '(No Subject)',
+            sentDate,
+            date: attrs.date,
+            size: attrs.size || 0,
+            bodySize: partBytes,
+            flags: attrs.flags,
+            attachments: count,
+            attachmentBytes: bytes,
+          });
         });
       });
+
+      fetch.once('error', reject);
+      fetch.once('end', () => resolve(messages));
     });
   }
 
@@ -305,19 +1534,36 @@ export class MailService {
     return false;
   }
 
-  async getEmailDetails(mailbox: string, uid: number): Promise<EmailDetails | null> {
-    await this.connect();
+  private formatAddresses(value: AddressObject | AddressObject[] | undefined): string {
+    if (!value) return '';
+    return Array.isArray(value)
+      ? value.map(a => a.text || '').join(', ')
+      : value.text || '';
+  }
 
-    return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
-        if (err) return reject(err);
+  /**
+   * Fetch and parse one message, or null when the UID does not exist. The
+   * mailbox is opened read-only (EXAMINE) and the message fetched with
+   * BODY.PEEK, so reading leaves \Seen alone unless `markAsRead` is set.
+   */
+  async getEmailDetails(
+    mailbox: string,
+    uid: number,
+    options: { includeAttachmentContent?: boolean; markAsRead?: boolean } = {}
+  ): Promise<EmailDetails | null> {
+    const email = await this.withImap('read', async () => {
+      await this.openMailbox(mailbox, true);
 
+      return new Promise<EmailDetails | null>((resolve, reject) => {
+        let found = false;
         const fetch = this.imap.fetch(uid, {
           bodies: '',
           struct: true,
+          markSeen: false,
         });
 
         fetch.on('message', (msg) => {
+          found = true;
           let rawEmail = '';
           const details: Partial<EmailDetails> = { uid };
 
@@ -334,34 +1580,30 @@ export class MailService {
           msg.once('end', async () => {
             try {
               const parsed = await simpleParser(rawEmail);
-              
+
               details.subject = parsed.subject || '(No Subject)';
-              if (parsed.from) {
-                details.from = typeof parsed.from === 'string' 
-                  ? parsed.from 
-                  : Array.isArray(parsed.from) 
-                    ? parsed.from.map(a => a.text || '').join(', ')
-                    : parsed.from.text || '';
-              } else {
-                details.from = '';
-              }
-              if (parsed.to) {
-                details.to = typeof parsed.to === 'string' 
-                  ? parsed.to 
-                  : Array.isArray(parsed.to) 
-                    ? parsed.to.map(a => a.text || '').join(', ')
-                    : parsed.to.text || '';
-              } else {
-                details.to = '';
-              }
+              details.from = this.formatAddresses(parsed.from);
+              details.to = this.formatAddresses(parsed.to);
+              details.cc = this.formatAddresses(parsed.cc) || undefined;
+              details.bcc = this.formatAddresses(parsed.bcc) || undefined;
+              details.replyTo = this.formatAddresses(parsed.replyTo) || undefined;
+              details.messageId = parsed.messageId;
+              details.inReplyTo = parsed.inReplyTo;
+              details.references = typeof parsed.references === 'string'
+                ? [parsed.references]
+                : parsed.references;
               details.date = parsed.date && !isNaN(parsed.date.getTime()) ? parsed.date : new Date();
               details.textContent = parsed.text;
               details.htmlContent = parsed.html || undefined;
-              
+
               details.headers = {};
               if (parsed.headers) {
                 parsed.headers.forEach((value, key) => {
-                  details.headers![key] = Array.isArray(value) ? value.join(', ') : String(value);
+                  details.headers![key] = Array.isArray(value)
+                    ? value.join(', ')
+                    : value && typeof value === 'object' && 'text' in value
+                      ? value.text
+                      : String(value);
                 });
               }
 
@@ -370,6 +1612,8 @@ export class MailService {
                 contentType: att.contentType || 'application/octet-stream',
                 size: att.size || 0,
                 contentId: att.contentId,
+                charset: attachmentCharset(att.headers),
+                content: options.includeAttachmentContent ? att.content : undefined,
               }));
 
               resolve(details as EmailDetails);
@@ -381,126 +1625,414 @@ export class MailService {
 
         fetch.once('error', reject);
         fetch.once('end', () => {
-          // If no message was processed, resolve null
+          // No such UID; resolve instead of holding the connection queue forever
+          if (!found) resolve(null);
         });
       });
     });
+
+    // Reading is not an operation worth undoing, so this bypasses the journal
+    if (email && options.markAsRead && !email.flags.includes('\\Seen')) {
+      await this.withImap('write', async () => {
+        await this.openMailbox(mailbox, false);
+        await this.storeFlags([uid], ['\\Seen'], 'add');
+      });
+      email.flags = [...email.flags, '\\Seen'];
+    }
+    return email;
   }
 
-  async moveEmails(mailbox: string, uids: number[], destination: string): Promise<void> {
-    await this.connect();
+  /**
+   * Move messages to another mailbox. Returns the journal operation ID
+   * when the move was recorded for undo.
+   */
+  async moveEmails(mailbox: string, uids: number[], destination: string): Promise<string | undefined> {
+    return this.moveJournaled('move', mailbox, uids, destination);
+  }
 
-    return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
-        if (err) return reject(err);
+  /**
+   * Delete messages. By default they are moved to Trash, where they can be
+   * restored with undo. Messages already in Trash, or deleted with
+   * `permanent`, are flagged \Deleted and expunged by UID, so messages
+   * another client marked \Deleted are left alone.
+   */
+  async deleteEmails(
+    mailbox: string,
+    uids: number[],
+    options: { permanent?: boolean; trashMailbox?: string } = {}
+  ): Promise<string | undefined> {
+    return this.withImap('write', async () => {
+      const trash = options.permanent ? undefined : options.trashMailbox || await this.getTrashMailbox();
+      if (trash && trash !== mailbox) {
+        return this.moveJournaled('delete', mailbox, uids, trash);
+      }
 
-        this.imap.move(uids, destination, (err) => {
-          if (err) {
-            // Fallback: copy then delete
-            this.imap.copy(uids, destination, (copyErr) => {
-              if (copyErr) return reject(copyErr);
-              
-              this.imap.addFlags(uids, '\\Deleted', (flagErr) => {
-                if (flagErr) return reject(flagErr);
-                
-                this.imap.expunge((expungeErr) => {
-                  if (expungeErr) return reject(expungeErr);
-                  resolve();
-                });
-              });
-            });
-          } else {
-            // Move successful, but still need to expunge to ensure clean removal
-            this.imap.expunge((expungeErr) => {
-              if (expungeErr) {
-                console.warn('Move succeeded but expunge failed:', expungeErr);
-              }
-              resolve();
-            });
-          }
-        });
-      });
+      await this.openMailbox(mailbox, false);
+
+      const messages = await this.snapshotMessages(uids);
+      await this.storeFlags(uids, ['\\Deleted'], 'add');
+      await this.expungeUids(uids);
+      return this.recordOperation({ type: 'delete', mailbox, messages });
     });
   }
 
-  async deleteEmails(mailbox: string, uids: number[]): Promise<void> {
-    await this.connect();
+  /**
+   * Permanently delete messages in Trash, optionally only those received
+   * more than `olderThanDays` days ago (IMAP keeps the original internal
+   * date when a message is moved, so the time spent in Trash is unknown).
+   * With `preview`, nothing is deleted.
+   */
+  async emptyTrash(
+    options: { olderThanDays?: number; preview?: boolean } = {}
+  ): Promise<{ mailbox: string; uids: number[]; operationId?: string }> {
+    return this.withImap('write', async () => {
+      const mailbox = await this.getTrashMailbox();
+      await this.openMailbox(mailbox, !!options.preview);
 
-    return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
-        if (err) return reject(err);
+      const uids = await this.searchUids({ beforeDays: options.olderThanDays });
+      if (options.preview || uids.length === 0) return { mailbox, uids };
 
-        this.imap.addFlags(uids, '\\Deleted', (err) => {
-          if (err) return reject(err);
-          
-          this.imap.expunge((err) => {
-            if (err) return reject(err);
-            resolve();
-          });
-        });
-      });
+      const operationId = await this.deleteEmails(mailbox, uids, { permanent: true });
+      return { mailbox, uids, operationId };
     });
   }
 
-  async markSeen(mailbox: string, uids: number[], seen: boolean): Promise<void> {
-    await this.connect();
+  async markSeen(mailbox: string, uids: number[], seen: boolean): Promise<string | undefined> {
+    return seen
+      ? this.addFlags(mailbox, uids, ['\\Seen'])
+      : this.removeFlags(mailbox, uids, ['\\Seen']);
+  }
 
-    return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
-        if (err) return reject(err);
+  async addFlags(mailbox: string, uids: number[], flags: string[]): Promise<string | undefined> {
+    return this.changeFlags(mailbox, uids, flags, 'add');
+  }
 
-        const operation = seen ? 'addFlags' : 'delFlags';
-        this.imap[operation](uids, '\\Seen', (err) => {
-          if (err) return reject(err);
-          resolve();
-        });
-      });
+  async removeFlags(mailbox: string, uids: number[], flags: string[]): Promise<string | undefined> {
+    return this.changeFlags(mailbox, uids, flags, 'remove');
+  }
+
+  async listOperations(limit?: number): Promise<JournalOperation[]> {
+    return this.journal ? this.journal.list(limit) : [];
+  }
+
+  /**
+   * Reverse a journaled operation: moves (and soft deletes) are moved back
+   * to their original mailbox and flag changes are reset to each message's
+   * previous state. Messages are found by their recorded UID and, when that
+   * no longer matches, by Message-ID.
+   */
+  async undoOperation(id: string): Promise<UndoResult> {
+    return this.withImap('write', async () => {
+      if (!this.journal) throw new MailError('NOT_SUPPORTED', 'Operations journal is not enabled');
+
+      const operation = await this.journal.get(id);
+      if (!operation) throw new MailError('NOT_FOUND', `Operation ${id} not found`);
+      if (operation.undoneAt) throw new MailError('INVALID_ARGUMENT', `Operation ${id} was already undone at ${operation.undoneAt}`);
+      if (!isUndoable(operation)) {
+        throw new MailError('INVALID_ARGUMENT', `Operation ${id} permanently deleted its messages and cannot be undone`);
+      }
+
+      let restored: number;
+      if (operation.type === 'flags') {
+        await this.openMailbox(operation.mailbox, false);
+        const located = await this.locateMessages(operation.messages, false);
+
+        for (const flag of operation.flags || []) {
+          const hadFlag = located.filter(({ message }) => message.flags.includes(flag)).map(({ uid }) => uid);
+          const lacked = located.filter(({ message }) => !message.flags.includes(flag)).map(({ uid }) => uid);
+          await this.storeFlags(hadFlag, [flag], 'add');
+          await this.storeFlags(lacked, [flag], 'remove');
+        }
+        restored = located.length;
+      } else {
+        await this.openMailbox(operation.destination!, false);
+        const located = await this.locateMessages(operation.messages, true);
+        if (located.length > 0) {
+          await this.moveOpenMessages(located.map(({ uid }) => uid), operation.mailbox);
+        }
+        restored = located.length;
+      }
+
+      await this.journal.markUndone(id);
+      return { operation, restored, missing: operation.messages.length - restored };
     });
   }
 
-  async addFlags(mailbox: string, uids: number[], flags: string[]): Promise<void> {
-    await this.connect();
+  private async moveJournaled(
+    type: 'move' | 'delete',
+    mailbox: string,
+    uids: number[],
+    destination: string
+  ): Promise<string | undefined> {
+    return this.withImap('write', async () => {
+      await this.openMailbox(mailbox, false);
 
-    return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
-        if (err) return reject(err);
+      const messages = await this.snapshotMessages(uids);
+      const newUids = await this.moveOpenMessages(uids, destination);
 
-        this.imap.addFlags(uids, flags, (err) => {
-          if (err) return reject(err);
-          resolve();
-        });
+      // COPYUID lists destination UIDs in ascending source UID order
+      const moved = [...messages].sort((a, b) => a.uid - b.uid);
+      if (newUids.length === moved.length) {
+        moved.forEach((message, index) => { message.newUid = newUids[index]; });
+      }
+      // Without a destination UID or Message-ID, undo has nothing to look these up by
+      const unrestorable = messages.filter(message => !message.newUid && !message.messageId).map(message => message.uid);
+      return this.recordOperation({
+        type,
+        mailbox,
+        destination,
+        messages,
+        ...(unrestorable.length > 0 && { unrestorable }),
       });
     });
   }
 
-  async removeFlags(mailbox: string, uids: number[], flags: string[]): Promise<void> {
-    await this.connect();
+  private async changeFlags(
+    mailbox: string,
+    uids: number[],
+    flags: string[],
+    action: 'add' | 'remove'
+  ): Promise<string | undefined> {
+    return this.withImap('write', async () => {
+      await this.openMailbox(mailbox, false);
+
+      const messages = await this.snapshotMessages(uids);
+      await this.storeFlags(uids, flags, action);
+      return this.recordOperation({ type: 'flags', mailbox, messages, flags, action });
+    });
+  }
+
+  private storeFlags(uids: number[], flags: string[], action: 'add' | 'remove'): Promise<void> {
+    if (uids.length === 0) return Promise.resolve();
 
     return new Promise((resolve, reject) => {
-      this.imap.openBox(mailbox, false, (err) => {
+      const operation = action === 'add' ? 'addFlags' : 'delFlags';
+      this.imap[operation](uids, flags, (err) => {
         if (err) return reject(err);
+        resolve();
+      });
+    });
+  }
 
-        this.imap.delFlags(uids, flags, (err) => {
+  /**
+   * Move within the open mailbox; resolves to the destination UIDs from
+   * COPYUID, if reported. Servers without MOVE get COPY, \Deleted and a
+   * UID-scoped expunge; a failed MOVE is never retried as a copy, which could
+   * leave the messages in both mailboxes.
+   */
+  private async moveOpenMessages(uids: number[], destination: string): Promise<number[]> {
+    const imap: CopyingImap = this.imap;
+    if (this.imap.serverSupports('MOVE')) {
+      // node-imap only parses a tagged COPYUID, and most servers send it untagged after UID MOVE
+      return new Promise((resolve, reject) => {
+        imap.move(uids, destination, (err, copyUids) => {
           if (err) return reject(err);
-          resolve();
+          resolve(expandUidSet(copyUids));
         });
       });
+    }
+
+    const copiedUids = await new Promise<number[]>((resolve, reject) => {
+      imap.copy(uids, destination, (err, copyUids) => {
+        if (err) return reject(err);
+        resolve(expandUidSet(copyUids));
+      });
+    });
+    await this.storeFlags(uids, ['\\Deleted'], 'add');
+    await this.expungeUids(uids);
+    return copiedUids;
+  }
+
+  /**
+   * Expunge only the given UIDs. Uses UID EXPUNGE (UIDPLUS); otherwise
+   * other \Deleted messages are unflagged around a plain EXPUNGE and
+   * flagged again afterwards.
+   */
+  private async expungeUids(uids: number[]): Promise<void> {
+    if (uids.length === 0) return;
+
+    const expunge = (scope?: number[]) => new Promise<void>((resolve, reject) => {
+      const done = (err: Error) => err ? reject(err) : resolve();
+      if (scope) this.imap.expunge(scope, done);
+      else this.imap.expunge(done);
     });
+
+    if (this.imap.serverSupports('UIDPLUS')) {
+      return expunge(uids);
+    }
+
+    const targets = new Set(uids);
+    const others = (await this.runSearch(['DELETED'])).filter(uid => !targets.has(uid));
+    await this.storeFlags(others, ['\\Deleted'], 'remove');
+    try {
+      await expunge();
+    } finally {
+      await this.storeFlags(others, ['\\Deleted'], 'add');
+    }
+  }
+
+  // State of messages in the open mailbox before a journaled change
+  private async snapshotMessages(uids: number[]): Promise<JournalMessage[]> {
+    if (!this.journal) return [];
+
+    const emails = await this.fetchSummaries(uids);
+    return emails.map(email => ({
+      uid: email.uid,
+      messageId: email.messageId,
+      subject: email.subject,
+      flags: email.flags,
+    }));
+  }
+
+  private async recordOperation(entry: Omit<JournalOperation, 'id' | 'timestamp'>): Promise<string | undefined> {
+    if (!this.journal || entry.messages.length === 0) return undefined;
+
+    try {
+      return (await this.journal.record(entry)).id;
+    } catch (error) {
+      // The mail operation itself succeeded; don't report it as failed
+      console.error('Failed to record operation in journal:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Find journaled messages in the open mailbox, by UID (`newUid` for
+   * messages that were moved here) and otherwise by Message-ID.
+   */
+  private async locateMessages(
+    messages: JournalMessage[],
+    moved: boolean
+  ): Promise<Array<{ message: JournalMessage; uid: number }>> {
+    const recordedUid = (message: JournalMessage) => (moved ? message.newUid : message.uid);
+    const candidates = messages.map(recordedUid).filter((uid): uid is number => uid !== undefined);
+    const current = new Map((await this.fetchSummaries(candidates)).map(email => [email.uid, email]));
+
+    const located: Array<{ message: JournalMessage; uid: number }> = [];
+    const pending: JournalMessage[] = [];
+    for (const message of messages) {
+      const uid = recordedUid(message);
+      const email = uid !== undefined ? current.get(uid) : undefined;
+      if (email && (!message.messageId || email.messageId === message.messageId)) {
+        located.push({ message, uid: email.uid });
+      } else if (message.messageId) {
+        pending.push(message);
+      }
+    }
+
+    const taken = new Set(located.map(({ uid }) => uid));
+    for (let i = 0; i < pending.length; i += LOCATE_SEARCH_BATCH) {
+      const batch = pending.slice(i, i + LOCATE_SEARCH_BATCH);
+      const criteria = batch
+        .map((message): any[] => ['HEADER', 'MESSAGE-ID', message.messageId!])
+        .reduce((acc: any, term) => ['OR', acc, term]);
+      const found = await this.fetchSummaries(await this.runSearch([criteria]));
+
+      for (const message of batch) {
+        const match = found.find(email => email.messageId === message.messageId && !taken.has(email.uid));
+        if (match) {
+          located.push({ message, uid: match.uid });
+          taken.add(match.uid);
+        }
+      }
+    }
+    return located;
+  }
+
+  /**
+   * Load one attachment with its content, selected by index or Content-ID.
+   * `nestedPath` walks into attached messages: [2, 0] is attachment 0 of
+   * the message attached at the selected position, and so on.
+   */
+  async getAttachment(
+    mailbox: string,
+    uid: number,
+    selector: { index?: number; contentId?: string; nestedPath?: number[] }
+  ): Promise<{ attachment: AttachmentInfo & { content: Buffer }; index: number }> {
+    const email = await this.getEmailDetails(mailbox, uid, { includeAttachmentContent: true });
+    if (!email) throw new MailError('UID_NOT_FOUND', `Email with UID ${uid} not found`);
+
+    let attachments = email.attachments;
+    let index: number;
+
+    if (selector.contentId) {
+      const wanted = selector.contentId.replace(/^<|>$/g, '');
+      index = attachments.findIndex(att => att.contentId?.replace(/^<|>$/g, '') === wanted);
+      if (index === -1) throw new MailError('NOT_FOUND', `No attachment with Content-ID ${selector.contentId}`);
+    } else if (selector.index !== undefined) {
+      index = selector.index;
+    } else {
+      throw new MailError('INVALID_ARGUMENT', 'Either index or contentId is required');
+    }
+
+    for (const next of selector.nestedPath || []) {
+      const container = attachments[index];
+      if (!container?.content) {
+        throw new MailError('NOT_FOUND', `Attachment index ${index} out of range (${attachments.length} attachments)`);
+      }
+      if (classifyAttachment(container) !== 'message') {
+        throw new MailError('INVALID_ARGUMENT', `Attachment "${container.filename}" is not an attached message`);
+      }
+      attachments = (await parseAttachedMessage(container.content)).attachments;
+      index = next;
+    }
+
+    const attachment = attachments[index];
+    if (!attachment?.content) {
+      throw new MailError('NOT_FOUND', `Attachment index ${index} out of range (${attachments.length} attachments)`);
+    }
+
+    return { attachment: attachment as AttachmentInfo & { content: Buffer }, index };
   }
 
   async saveAttachments(
     mailbox: string,
-    uid: number
-  ): Promise<{ saved: string[]; skipped: string[] }> {
-    const email = await this.getEmailDetails(mailbox, uid);
-    if (!email) throw new Error('Email not found');
+    uid: number,
+    options: SaveAttachmentsOptions
+  ): Promise<{ saved: string[]; skipped: SkippedAttachment[] }> {
+    const email = await this.getEmailDetails(mailbox, uid, { includeAttachmentContent: true });
+    if (!email) throw new MailError('UID_NOT_FOUND', `Email with UID ${uid} not found in ${mailbox}`);
 
     const saved: string[] = [];
-    const skipped: string[] = [];
+    const skipped: SkippedAttachment[] = [];
 
-    // Attachment saving implementation would go here
-    // For now, returning empty arrays
+    const baseDir = path.resolve(options.directory);
+    const targetDir = path.resolve(baseDir, options.subdirectory || '');
+    if (targetDir !== baseDir && !targetDir.startsWith(baseDir + path.sep)) {
+      throw new MailError('INVALID_ARGUMENT', `Subdirectory "${options.subdirectory}" is outside the download directory`);
+    }
+
+    const namePattern = options.filenamePattern ? globToRegExp(options.filenamePattern) : undefined;
+
+    for (const att of email.attachments) {
+      if (namePattern && !namePattern.test(att.filename)) {
+        skipped.push({ filename: att.filename, reason: `filename does not match "${options.filenamePattern}"` });
+        continue;
+      }
+      if (options.contentTypes?.length && !options.contentTypes.some(type => matchesContentType(att.contentType, type))) {
+        skipped.push({ filename: att.filename, reason: `content type ${att.contentType} not selected` });
+        continue;
+      }
+      if (options.maxSize !== undefined && att.size > options.maxSize) {
+        skipped.push({ filename: att.filename, reason: `size ${att.size} bytes exceeds limit of ${options.maxSize}` });
+        continue;
+      }
+      if (!att.content) {
+        skipped.push({ filename: att.filename, reason: 'attachment has no content' });
+        continue;
+      }
+
+      try {
+        await mkdir(targetDir, { recursive: true });
+        saved.push(await writeUniqueFile(targetDir, sanitizeFilename(att.filename), att.content));
+      } catch (error) {
+        skipped.push({
+          filename: att.filename,
+          reason: `write failed: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
 
     return { saved, skipped };
   }
-}
\ No newline at end of file
+}
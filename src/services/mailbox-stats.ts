@@ -0,0 +1,185 @@
+import { MailService, MessageStat } from './mail-service.js';
+
+export interface SenderStat {
+  // Sender address or domain
+  key: string;
+  count: number;
+  bytes: number;
+  unread: number;
+}
+
+export interface AgeBucket {
+  label: string;
+  minDays: number;
+  // Unset for the open-ended last bucket
+  maxDays?: number;
+  count: number;
+  bytes: number;
+}
+
+export interface LargeMessage {
+  uid: number;
+  from: string;
+  subject: string;
+  date: Date;
+  size: number;
+  attachments: number;
+}
+
+export interface MailboxStats {
+  mailbox: string;
+  // Messages in the mailbox, matched by the date filter, and actually examined
+  totalMessages: number;
+  matched: number;
+  examined: number;
+  truncated: boolean;
+  unread: number;
+  flagged: number;
+  totalBytes: number;
+  oldest?: Date;
+  newest?: Date;
+  topSenders: { byCount: SenderStat[]; byBytes: SenderStat[] };
+  topDomains: { byCount: SenderStat[]; byBytes: SenderStat[] };
+  ageHistogram: AgeBucket[];
+  largest: LargeMessage[];
+  attachments: { messages: number; count: number; bytes: number };
+}
+
+export interface StatsOptions {
+  sinceDays?: number;
+  // Newest messages examined per mailbox
+  maxMessages?: number;
+  // Entries in each top senders / domains list
+  top?: number;
+  // Entries in the largest messages list
+  largest?: number;
+}
+
+const DEFAULT_MAX_MESSAGES = 10000;
+const DEFAULT_TOP = 10;
+const DEFAULT_LARGEST = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AGE_BUCKETS: Array<Pick<AgeBucket, 'label' | 'minDays' | 'maxDays'>> = [
+  { label: 'under 1 week', minDays: 0, maxDays: 7 },
+  { label: '1-4 weeks', minDays: 7, maxDays: 30 },
+  { label: '1-3 months', minDays: 30, maxDays: 90 },
+  { label: '3-12 months', minDays: 90, maxDays: 365 },
+  { label: '1-2 years', minDays: 365, maxDays: 730 },
+  { label: 'over 2 years', minDays: 730 },
+];
+
+function rank(groups: Map<string, SenderStat>, top: number): { byCount: SenderStat[]; byBytes: SenderStat[] } {
+  const all = [...groups.values()];
+  return {
+    byCount: [...all].sort((a, b) => b.count - a.count || b.bytes - a.bytes).slice(0, top),
+    byBytes: [...all].sort((a, b) => b.bytes - a.bytes || b.count - a.count).slice(0, top),
+  };
+}
+
+function addTo(groups: Map<string, SenderStat>, key: string, message: MessageStat, unread: boolean): void {
+  const group = groups.get(key) || { key, count: 0, bytes: 0, unread: 0 };
+  group.count++;
+  group.bytes += message.size;
+  if (unread) group.unread++;
+  groups.set(key, group);
+}
+
+/**
+ * Aggregate per-message sizes into the statistics of one mailbox. Ages are
+ * measured from the server's received date relative to `now`.
+ */
+export function summarizeMessages(
+  mailbox: string,
+  fetched: { total: number; matched: number; messages: MessageStat[] },
+  options: { top?: number; largest?: number; now?: Date } = {}
+): MailboxStats {
+  const top = options.top ?? DEFAULT_TOP;
+  const now = (options.now ?? new Date()).getTime();
+  const { messages } = fetched;
+
+  const senders = new Map<string, SenderStat>();
+  const domains = new Map<string, SenderStat>();
+  const ageHistogram: AgeBucket[] = AGE_BUCKETS.map(bucket => ({ ...bucket, count: 0, bytes: 0 }));
+  const stats: MailboxStats = {
+    mailbox,
+    totalMessages: fetched.total,
+    matched: fetched.matched,
+    examined: messages.length,
+    truncated: messages.length < fetched.matched,
+    unread: 0,
+    flagged: 0,
+    totalBytes: 0,
+    topSenders: { byCount: [], byBytes: [] },
+    topDomains: { byCount: [], byBytes: [] },
+    ageHistogram,
+    largest: [],
+    attachments: { messages: 0, count: 0, bytes: 0 },
+  };
+
+  for (const message of messages) {
+    const unread = !message.flags.includes('\\Seen');
+    if (unread) stats.unread++;
+    if (message.flags.includes('\\Flagged')) stats.flagged++;
+    stats.totalBytes += message.size;
+
+    const sender = message.from || '(unknown)';
+    addTo(senders, sender, message, unread);
+    addTo(domains, sender.includes('@') ? sender.slice(sender.lastIndexOf('@') + 1) : sender, message, unread);
+
+    if (!stats.oldest || message.date < stats.oldest) stats.oldest = message.date;
+    if (!stats.newest || message.date > stats.newest) stats.newest = message.date;
+
+    const age = Math.max(0, (now - message.date.getTime()) / DAY_MS);
+    const bucket = ageHistogram.find(entry => entry.maxDays === undefined || age < entry.maxDays)!;
+    bucket.count++;
+    bucket.bytes += message.size;
+
+    if (message.attachments > 0) {
+      stats.attachments.messages++;
+      stats.attachments.count += message.attachments;
+      stats.attachments.bytes += message.attachmentBytes;
+    }
+  }
+
+  stats.topSenders = rank(senders, top);
+  stats.topDomains = rank(domains, top);
+  stats.largest = [...messages]
+    .sort((a, b) => b.size - a.size)
+    .slice(0, options.largest ?? DEFAULT_LARGEST)
+    .map(message => ({
+      uid: message.uid,
+      from: message.fromName ? `${message.fromName} <${message.from}>` : message.from,
+      subject: message.subject,
+      date: message.date,
+      size: message.size,
+      attachments: message.attachments,
+    }));
+
+  return stats;
+}
+
+/**
+ * Mailbox statistics for cleanup suggestions: counts, sizes, top senders
+ * and domains, an age histogram and the largest messages. Only envelopes,
+ * sizes and BODYSTRUCTUREs are fetched.
+ */
+export class MailboxStatsService {
+  private mailService: MailService;
+
+  constructor(mailService: MailService) {
+    this.mailService = mailService;
+  }
+
+  async getStats(mailboxes: string[], options: StatsOptions = {}): Promise<MailboxStats[]> {
+    const results: MailboxStats[] = [];
+    for (const mailbox of mailboxes) {
+      const fetched = await this.mailService.fetchMessageStats(mailbox, {
+        sinceDays: options.sinceDays,
+        limit: options.maxMessages ?? DEFAULT_MAX_MESSAGES,
+      });
+      results.push(summarizeMessages(mailbox, fetched, options));
+    }
+    return results;
+  }
+}
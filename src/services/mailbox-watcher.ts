@@ -0,0 +1,216 @@
+import Imap from 'imap';
+import { MailService, MailConfig, EmailSummary } from './mail-service.js';
+
+export type MailboxEvent =
+  | { type: 'new'; emails: EmailSummary[] }
+  | { type: 'flags'; uid: number; flags: string[] }
+  | { type: 'expunge'; uids: number[] }
+  | { type: 'status'; status: 'watching' | 'reconnecting' | 'stopped'; error?: string };
+
+export type WatcherState = 'connecting' | 'watching' | 'reconnecting' | 'stopped';
+
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60000;
+
+/**
+ * Keeps a dedicated IMAP connection open on one mailbox. node-imap IDLEs
+ * automatically while the mailbox is selected (or polls with NOOP when the
+ * server lacks IDLE), and unsolicited EXISTS / FETCH / EXPUNGE responses are
+ * turned into MailboxEvents. Dropped connections are re-established with
+ * exponential backoff; changes that happened while disconnected are reported
+ * after reconnecting.
+ */
+export class MailboxWatcher {
+  readonly mailbox: string;
+  private config: MailConfig;
+  private mailService: MailService;
+  private onEvent: (event: MailboxEvent) => void;
+
+  private imap?: Imap;
+  private state: WatcherState = 'stopped';
+  // UIDs in sequence-number order, so EXPUNGE (which only carries a seqno) maps to a UID
+  private uids: number[] = [];
+  private uidValidity?: number;
+  private reconnectDelay = RECONNECT_MIN_DELAY;
+  private reconnectTimer?: NodeJS.Timeout;
+  // Serializes reactions to server events so the UID list stays consistent
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    mailbox: string,
+    config: MailConfig,
+    mailService: MailService,
+    onEvent: (event: MailboxEvent) => void
+  ) {
+    this.mailbox = mailbox;
+    this.config = config;
+    this.mailService = mailService;
+    this.onEvent = onEvent;
+  }
+
+  getState(): WatcherState {
+    return this.state;
+  }
+
+  async start(): Promise<void> {
+    if (this.state !== 'stopped') return;
+    this.state = 'connecting';
+    await this.connect();
+  }
+
+  stop(): void {
+    this.state = 'stopped';
+    clearTimeout(this.reconnectTimer);
+    const imap = this.imap;
+    this.imap = undefined;
+    imap?.removeAllListeners();
+    // Swallow errors from the closing socket
+    imap?.on('error', () => {});
+    imap?.end();
+    this.onEvent({ type: 'status', status: 'stopped' });
+  }
+
+  private async connect(): Promise<void> {
+    const imap = new Imap({
+      user: this.config.imap.user,
+      password: this.config.imap.password,
+      host: this.config.imap.host,
+      port: this.config.imap.port,
+      tls: this.config.imap.tls,
+      tlsOptions: { rejectUnauthorized: false },
+    });
+    this.imap = imap;
+
+    // node-imap leaves pending callbacks unanswered when the socket closes,
+    // so a close before the mailbox is open has to fail the setup itself
+    let closedDuringSetup = () => {};
+    const closed = new Promise<never>((_, reject) => {
+      closedDuringSetup = () => reject(new Error('IMAP connection closed during setup'));
+    });
+    closed.catch(() => {});
+    imap.once('close', closedDuringSetup);
+
+    try {
+      await Promise.race([closed, new Promise<void>((resolve, reject) => {
+        imap.once('ready', () => resolve());
+        imap.once('error', reject);
+        imap.connect();
+      })]);
+
+      const box = await Promise.race([closed, new Promise<Imap.Box>((resolve, reject) => {
+        imap.openBox(this.mailbox, true, (err, box) => err ? reject(err) : resolve(box));
+      })]);
+      const current = await Promise.race([closed, this.searchUids(imap, ['ALL'], box.messages.total)]);
+
+      if (this.uidValidity === box.uidvalidity) {
+        this.reportMissedChanges(current);
+      }
+      this.uidValidity = box.uidvalidity;
+      this.uids = current;
+    } catch (error) {
+      if (this.imap !== imap) return;
+      // A bad mailbox name or credentials won't fix themselves on the first start
+      if (this.state === 'connecting') {
+        this.stop();
+        throw error;
+      }
+      this.scheduleReconnect(error);
+      return;
+    } finally {
+      imap.removeListener('close', closedDuringSetup);
+    }
+
+    if (this.imap !== imap) return;
+
+    imap.on('mail', () => this.enqueue(() => this.handleNewMail(imap)));
+    imap.on('update', (seqno: number, info: any) => this.enqueue(async () => this.handleUpdate(seqno, info)));
+    imap.on('expunge', (seqno: number) => this.enqueue(async () => this.handleExpunge(seqno)));
+    imap.on('error', (error: Error) => this.scheduleReconnect(error));
+    imap.once('close', () => this.scheduleReconnect());
+
+    this.state = 'watching';
+    this.reconnectDelay = RECONNECT_MIN_DELAY;
+    this.onEvent({ type: 'status', status: 'watching' });
+  }
+
+  private scheduleReconnect(error?: unknown): void {
+    if (this.state === 'stopped') return;
+    clearTimeout(this.reconnectTimer);
+
+    const imap = this.imap;
+    this.imap = undefined;
+    imap?.removeAllListeners();
+    imap?.on('error', () => {});
+    imap?.destroy();
+
+    this.state = 'reconnecting';
+    this.onEvent({
+      type: 'status',
+      status: 'reconnecting',
+      error: error ? (error instanceof Error ? error.message : String(error)) : 'connection closed',
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.connect().catch(() => {});
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_DELAY);
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(task)
+      .catch(error => console.error(`Watcher for ${this.mailbox} failed to process an update:`, error));
+  }
+
+  private searchUids(imap: Imap, criteria: any[], total: number): Promise<number[]> {
+    if (total === 0) return Promise.resolve([]);
+    return new Promise((resolve, reject) => {
+      imap.search(criteria, (err, uids) => err ? reject(err) : resolve([...(uids || [])].sort((a, b) => a - b)));
+    });
+  }
+
+  private async handleNewMail(imap: Imap): Promise<void> {
+    const lastUid = this.uids[this.uids.length - 1] || 0;
+    const found = await this.searchUids(imap, [['UID', `${lastUid + 1}:*`]], 1);
+    const added = found.filter(uid => uid > lastUid);
+    if (added.length === 0) return;
+
+    this.uids.push(...added);
+    await this.reportNew(added);
+  }
+
+  private handleUpdate(seqno: number, info: any): void {
+    if (!info?.flags) return;
+    const uid = info.uid || this.uids[seqno - 1];
+    if (uid) this.onEvent({ type: 'flags', uid, flags: info.flags });
+  }
+
+  private handleExpunge(seqno: number): void {
+    const [uid] = this.uids.splice(seqno - 1, 1);
+    if (uid) this.onEvent({ type: 'expunge', uids: [uid] });
+  }
+
+  // After a reconnect, report what arrived or disappeared while we were away
+  private reportMissedChanges(current: number[]): void {
+    const before = new Set(this.uids);
+    const now = new Set(current);
+    const removed = this.uids.filter(uid => !now.has(uid));
+    const added = current.filter(uid => !before.has(uid));
+
+    if (removed.length > 0) this.onEvent({ type: 'expunge', uids: removed });
+    if (added.length > 0) {
+      this.reportNew(added).catch(error => console.error(`Watcher for ${this.mailbox} failed to fetch new mail:`, error));
+    }
+  }
+
+  private async reportNew(uids: number[]): Promise<void> {
+    let emails: EmailSummary[];
+    try {
+      emails = await this.mailService.getEmailSummaries(this.mailbox, uids);
+    } catch {
+      // Still announce the arrival when the details can't be fetched
+      emails = uids.map(uid => ({ uid, subject: '', from: '', to: '', date: new Date(), flags: [] }));
+    }
+    this.onEvent({ type: 'new', emails });
+  }
+}
@@ -0,0 +1,128 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type OperationType = 'move' | 'delete' | 'flags';
+
+// A message as it was before the operation touched it
+export interface JournalMessage {
+  uid: number;
+  messageId?: string;
+  subject?: string;
+  flags: string[];
+  // UID in the destination mailbox, from COPYUID when the server reports it
+  newUid?: number;
+}
+
+export interface JournalOperation {
+  id: string;
+  type: OperationType;
+  timestamp: string;
+  mailbox: string;
+  messages: JournalMessage[];
+  // Move target, or the Trash mailbox for soft deletes
+  destination?: string;
+  // Flags added or removed by a 'flags' operation
+  flags?: string[];
+  action?: 'add' | 'remove';
+  // Source UIDs of moved messages undo cannot find: no COPYUID and no Message-ID
+  unrestorable?: number[];
+  undoneAt?: string;
+}
+
+interface JournalFile {
+  version: 1;
+  operations: JournalOperation[];
+}
+
+const JOURNAL_VERSION = 1;
+// Oldest operations are dropped beyond this
+const MAX_OPERATIONS = 500;
+
+/**
+ * Whether an operation can still be reversed. Hard deletes are expunged
+ * on the server, so only deletes that went to Trash can be restored, and a
+ * move none of whose messages can be found again cannot be undone either.
+ */
+export function isUndoable(operation: JournalOperation): boolean {
+  if (operation.undoneAt) return false;
+  if (operation.unrestorable && operation.unrestorable.length === operation.messages.length) return false;
+  return operation.type !== 'delete' || !!operation.destination;
+}
+
+/**
+ * Persistent log of mutating mail operations for one account, stored as a
+ * single JSON file. It only records what happened; MailService writes the
+ * entries and performs the undo.
+ */
+export class OperationJournal {
+  private file: string;
+  private operations?: JournalOperation[];
+  // Serializes read-modify-write cycles on the journal file
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async record(entry: Omit<JournalOperation, 'id' | 'timestamp'>): Promise<JournalOperation> {
+    const operation: JournalOperation = {
+      id: randomBytes(4).toString('hex'),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    await this.update(operations => {
+      operations.push(operation);
+      operations.splice(0, Math.max(0, operations.length - MAX_OPERATIONS));
+    });
+    return operation;
+  }
+
+  // Newest first
+  async list(limit?: number): Promise<JournalOperation[]> {
+    const operations = [...(await this.load())].reverse();
+    return limit !== undefined ? operations.slice(0, limit) : operations;
+  }
+
+  async get(id: string): Promise<JournalOperation | undefined> {
+    return (await this.load()).find(operation => operation.id === id);
+  }
+
+  async markUndone(id: string): Promise<void> {
+    await this.update(operations => {
+      const operation = operations.find(entry => entry.id === id);
+      if (operation) operation.undoneAt = new Date().toISOString();
+    });
+  }
+
+  private async load(): Promise<JournalOperation[]> {
+    if (this.operations) return this.operations;
+
+    try {
+      const journal = JSON.parse(await readFile(this.file, 'utf8')) as JournalFile;
+      this.operations = journal.version === JOURNAL_VERSION ? journal.operations : [];
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Cannot read operations journal: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      this.operations = [];
+    }
+    return this.operations;
+  }
+
+  private update(change: (operations: JournalOperation[]) => void): Promise<void> {
+    const run = this.queue.then(async () => {
+      const operations = await this.load();
+      change(operations);
+
+      const journal: JournalFile = { version: JOURNAL_VERSION, operations };
+      await mkdir(path.dirname(this.file), { recursive: true });
+      // Write then rename so a crash never leaves a half-written journal
+      await writeFile(`${this.file}.tmp`, JSON.stringify(journal));
+      await rename(`${this.file}.tmp`, this.file);
+    });
+    this.queue = run.catch(() => {});
+    return run;
+  }
+}
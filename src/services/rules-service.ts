@@ -0,0 +1,332 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { MailService, EmailSummary, SearchCriteria } from './mail-service.js';
+import { MailError } from './mail-errors.js';
+
+export interface RuleConditions {
+  from?: string;
+  to?: string;
+  subject?: string;
+  body?: string;
+  unreadOnly?: boolean;
+  sinceDays?: number;
+  beforeDays?: number;
+  hasAttachments?: boolean;
+  // Header name -> regular expression (case-insensitive) the header value must match
+  headers?: Record<string, string>;
+}
+
+export type RuleAction =
+  | { type: 'move'; destination: string }
+  | { type: 'flag'; flags: string[] }
+  | { type: 'markSeen' }
+  | { type: 'delete' };
+
+export interface MailRule {
+  name: string;
+  mailbox?: string;
+  enabled?: boolean;
+  conditions: RuleConditions;
+  actions: RuleAction[];
+}
+
+export interface RulesFile {
+  trashMailbox?: string;
+  rules: MailRule[];
+}
+
+export interface RuleResult {
+  rule: string;
+  mailbox: string;
+  uids: number[];
+  actions: string[];
+  applied: boolean;
+  error?: string;
+}
+
+const RULE_FILE_NAMES = ['mail-rules.json', 'mail-rules.yaml', 'mail-rules.yml'];
+
+// Every condition key a rule may use, with the type its value must have
+const CONDITION_TYPES: Record<keyof RuleConditions, 'text' | 'boolean' | 'days' | 'headers'> = {
+  from: 'text',
+  to: 'text',
+  subject: 'text',
+  body: 'text',
+  unreadOnly: 'boolean',
+  sinceDays: 'days',
+  beforeDays: 'days',
+  hasAttachments: 'boolean',
+  headers: 'headers',
+};
+
+/**
+ * Locate the rules file: MAIL_RULES_FILE wins, otherwise the first
+ * mail-rules.{json,yaml,yml} found next to the env file.
+ */
+export function resolveRulesFile(envFile?: string): string {
+  if (process.env.MAIL_RULES_FILE) {
+    return path.resolve(process.env.MAIL_RULES_FILE);
+  }
+
+  const dir = path.dirname(path.resolve(envFile || '.env'));
+  const found = RULE_FILE_NAMES
+    .map(name => path.join(dir, name))
+    .find(candidate => existsSync(candidate));
+
+  return found || path.join(dir, RULE_FILE_NAMES[0]);
+}
+
+export function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case 'move':
+      return `move to "${action.destination}"`;
+    case 'flag':
+      return `flag ${action.flags.join(', ')}`;
+    case 'markSeen':
+      return 'mark as read';
+    case 'delete':
+      return 'delete to trash';
+  }
+}
+
+export class RulesEngine {
+  private mailService: MailService;
+  private rulesFile: string;
+
+  constructor(mailService: MailService, rulesFile: string) {
+    this.mailService = mailService;
+    this.rulesFile = rulesFile;
+  }
+
+  getRulesFile(): string {
+    return this.rulesFile;
+  }
+
+  // Re-read on every call so edits to the file take effect without a restart
+  loadRules(): RulesFile {
+    if (!existsSync(this.rulesFile)) {
+      return { rules: [] };
+    }
+
+    const raw = readFileSync(this.rulesFile, 'utf8');
+    const data = /\.ya?ml$/i.test(this.rulesFile) ? parseYaml(raw) : JSON.parse(raw);
+    const file: RulesFile = Array.isArray(data) ? { rules: data } : data;
+
+    if (!file || !Array.isArray(file.rules)) {
+      throw new MailError('INVALID_ARGUMENT', `Rules file ${this.rulesFile} must contain a "rules" array`);
+    }
+
+    file.rules.forEach((rule, index) => this.validateRule(rule, index));
+    return file;
+  }
+
+  validateRule(rule: MailRule, index = 0): void {
+    const label = rule?.name ? `Rule "${rule.name}"` : `Rule #${index + 1}`;
+
+    if (!rule || typeof rule.name !== 'string' || rule.name.trim() === '') {
+      throw new MailError('INVALID_ARGUMENT', `${label}: "name" is required`);
+    }
+    if (!rule.conditions || typeof rule.conditions !== 'object' || Array.isArray(rule.conditions)) {
+      throw new MailError('INVALID_ARGUMENT', `${label}: "conditions" object is required`);
+    }
+    if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+      throw new MailError('INVALID_ARGUMENT', `${label}: at least one action is required`);
+    }
+
+    this.validateConditions(rule.conditions, label);
+
+    for (const action of rule.actions) {
+      switch (action?.type) {
+        case 'move':
+          if (!action.destination) throw new MailError('INVALID_ARGUMENT', `${label}: move action requires "destination"`);
+          break;
+        case 'flag':
+          if (!Array.isArray(action.flags) || action.flags.length === 0) {
+            throw new MailError('INVALID_ARGUMENT', `${label}: flag action requires a non-empty "flags" array`);
+          }
+          break;
+        case 'markSeen':
+        case 'delete':
+          break;
+        default:
+          throw new MailError('INVALID_ARGUMENT', `${label}: unknown action type "${(action as any)?.type}"`);
+      }
+    }
+
+    const removing = rule.actions.filter(a => a.type === 'move' || a.type === 'delete');
+    if (removing.length > 1) {
+      throw new MailError('INVALID_ARGUMENT', `${label}: only one move or delete action is allowed per rule`);
+    }
+  }
+
+  /**
+   * Unknown keys and mistyped values are rejected, and so are conditions
+   * that restrict nothing: such a rule would match the whole mailbox.
+   */
+  private validateConditions(conditions: RuleConditions, label: string): void {
+    const invalid = (message: string) => new MailError('INVALID_ARGUMENT', `${label}: ${message}`);
+
+    for (const [key, value] of Object.entries(conditions)) {
+      if (!Object.prototype.hasOwnProperty.call(CONDITION_TYPES, key)) {
+        throw invalid(`unknown condition "${key}" (expected ${Object.keys(CONDITION_TYPES).join(', ')})`);
+      }
+
+      switch (CONDITION_TYPES[key as keyof RuleConditions]) {
+        case 'text':
+          if (typeof value !== 'string' || value.trim() === '') throw invalid(`condition "${key}" must be a non-empty string`);
+          break;
+        case 'boolean':
+          if (typeof value !== 'boolean') throw invalid(`condition "${key}" must be true or false`);
+          break;
+        case 'days':
+          if (!Number.isInteger(value) || value <= 0) throw invalid(`condition "${key}" must be a positive whole number of days`);
+          break;
+        case 'headers':
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw invalid('condition "headers" must map header names to regular expressions');
+          }
+          for (const [header, pattern] of Object.entries(value)) {
+            if (typeof pattern !== 'string') throw invalid(`header "${header}" must map to a regular expression string`);
+            try {
+              new RegExp(pattern, 'i');
+            } catch (error) {
+              throw invalid(`invalid regex for header "${header}": ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+          break;
+      }
+    }
+
+    // unreadOnly: false and an empty headers map do not narrow the search
+    const restricting = Object.entries(conditions).filter(([key, value]) =>
+      key === 'unreadOnly' ? value === true : key === 'headers' ? Object.keys(value).length > 0 : true
+    );
+    if (restricting.length === 0) {
+      throw invalid('at least one condition is required; a rule without conditions would match every email');
+    }
+  }
+
+  /**
+   * Return the UIDs a rule matches. The search narrows the set, then
+   * header regexes are checked locally.
+   */
+  async findMatches(rule: MailRule): Promise<number[]> {
+    // The conditions go to the search as they are, so never search with an unchecked rule
+    this.validateRule(rule);
+    const mailbox = rule.mailbox || 'INBOX';
+    const { headers, ...rest } = rule.conditions;
+
+    const criteria: SearchCriteria = { ...rest, mailbox };
+    const emails: EmailSummary[] = await this.mailService.searchEmails(criteria);
+
+    let uids = emails.map(email => email.uid);
+
+    const headerPatterns = Object.entries(headers || {});
+    if (headerPatterns.length > 0 && uids.length > 0) {
+      const fetched = await this.mailService.fetchHeaders(
+        mailbox,
+        uids,
+        headerPatterns.map(([name]) => name)
+      );
+
+      uids = uids.filter(uid => {
+        const values = fetched.get(uid) || {};
+        return headerPatterns.every(([name, pattern]) => {
+          const value = values[name.toLowerCase()];
+          return value !== undefined && new RegExp(pattern, 'i').test(value);
+        });
+      });
+    }
+
+    return uids.sort((a, b) => a - b);
+  }
+
+  /**
+   * Evaluate rules in file order. A message moved or deleted by one rule is
+   * not considered by later rules in the same mailbox.
+   */
+  async applyRules(options: { names?: string[]; dryRun?: boolean } = {}): Promise<RuleResult[]> {
+    const file = this.loadRules();
+    const dryRun = options.dryRun !== false;
+    // Unset means the account's Trash mailbox (SPECIAL-USE or TRASH_MAILBOX)
+    const trashMailbox = file.trashMailbox;
+
+    if (options.names?.length) {
+      const unknown = options.names.filter(name => !file.rules.some(rule => rule.name === name));
+      if (unknown.length > 0) {
+        throw new MailError('NOT_FOUND', `Unknown rule(s): ${unknown.join(', ')}`);
+      }
+    }
+
+    const selected = file.rules.filter(rule =>
+      options.names?.length ? options.names.includes(rule.name) : rule.enabled !== false
+    );
+
+    const consumed = new Map<string, Set<number>>();
+    const results: RuleResult[] = [];
+
+    for (const rule of selected) {
+      const mailbox = rule.mailbox || 'INBOX';
+      const taken = consumed.get(mailbox) || new Set<number>();
+      consumed.set(mailbox, taken);
+
+      const result: RuleResult = {
+        rule: rule.name,
+        mailbox,
+        uids: [],
+        actions: rule.actions.map(describeAction),
+        applied: false,
+      };
+      results.push(result);
+
+      try {
+        result.uids = (await this.findMatches(rule)).filter(uid => !taken.has(uid));
+
+        const removes = rule.actions.some(a => a.type === 'move' || a.type === 'delete');
+        if (removes) {
+          result.uids.forEach(uid => taken.add(uid));
+        }
+
+        if (dryRun || result.uids.length === 0) continue;
+
+        await this.runActions(mailbox, result.uids, rule.actions, trashMailbox);
+        result.applied = true;
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return results;
+  }
+
+  private async runActions(
+    mailbox: string,
+    uids: number[],
+    actions: RuleAction[],
+    trashMailbox: string | undefined
+  ): Promise<void> {
+    // Flag changes must happen before the messages leave the mailbox
+    const ordered = [
+      ...actions.filter(a => a.type === 'flag' || a.type === 'markSeen'),
+      ...actions.filter(a => a.type === 'move' || a.type === 'delete'),
+    ];
+
+    for (const action of ordered) {
+      switch (action.type) {
+        case 'flag':
+          await this.mailService.addFlags(mailbox, uids, action.flags);
+          break;
+        case 'markSeen':
+          await this.mailService.addFlags(mailbox, uids, ['\\Seen']);
+          break;
+        case 'move':
+          await this.mailService.moveEmails(mailbox, uids, action.destination);
+          break;
+        case 'delete':
+          await this.mailService.deleteEmails(mailbox, uids, { trashMailbox });
+          break;
+      }
+    }
+  }
+}
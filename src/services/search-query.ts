@@ -0,0 +1,353 @@
+import { SearchCriteria } from './mail-service.js';
+import { MailError } from './mail-errors.js';
+
+type QueryNode =
+  | { type: 'term'; key?: string; value: string; position: number }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode; position: number };
+
+const TEXT_OPERATORS = ['from', 'to', 'cc', 'bcc', 'subject', 'body'] as const;
+
+const STATUS_CRITERIA: Record<string, SearchCriteria> = {
+  unread: { unreadOnly: true },
+  read: { flags: ['\\Seen'] },
+  flagged: { flagged: true },
+  starred: { flagged: true },
+  unflagged: { flagged: false },
+  unstarred: { flagged: false },
+  answered: { answered: true },
+  unanswered: { answered: false },
+};
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+const DURATION_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+export class SearchQueryError extends MailError {
+  constructor(message: string, position: number) {
+    super('INVALID_ARGUMENT', `Invalid search query at position ${position + 1}: ${message}`);
+    this.name = 'SearchQueryError';
+  }
+}
+
+class QueryParser {
+  private pos = 0;
+
+  constructor(private input: string) {}
+
+  parse(): QueryNode {
+    const node = this.parseSequence();
+    this.skipSpace();
+    if (this.pos < this.input.length) {
+      throw new SearchQueryError(`unexpected "${this.input[this.pos]}"`, this.pos);
+    }
+    return node;
+  }
+
+  // Terms separated by spaces (or AND) must all match
+  private parseSequence(closer?: string): QueryNode {
+    const children: QueryNode[] = [];
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.input.length || this.input[this.pos] === closer) break;
+
+      const word = this.peekWord();
+      if (word === 'OR') throw new SearchQueryError('OR must follow a search term', this.pos);
+      if (word === 'AND') {
+        this.pos += 3;
+        continue;
+      }
+      children.push(this.parseAlternatives(closer));
+    }
+
+    if (children.length === 0) {
+      throw new SearchQueryError(closer ? 'empty group' : 'query is empty', this.pos);
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  // As in Gmail, OR binds tighter than the implicit AND: "a OR b c" is "(a OR b) c"
+  private parseAlternatives(closer?: string): QueryNode {
+    const children = [this.parseUnary()];
+    for (;;) {
+      this.skipSpace();
+      if (this.peekWord() !== 'OR') break;
+      const position = this.pos;
+      this.pos += 2;
+      this.skipSpace();
+      if (this.pos >= this.input.length || this.input[this.pos] === closer || this.peekWord() === 'OR') {
+        throw new SearchQueryError('OR must be followed by a search term', position);
+      }
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const next = this.input[this.pos + 1];
+    if (this.input[this.pos] === '-' && next !== undefined && !/\s/.test(next)) {
+      const position = this.pos++;
+      return { type: 'not', child: this.parseUnary(), position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const char = this.input[this.pos];
+    const position = this.pos;
+
+    if (char === '(') {
+      this.pos++;
+      const node = this.parseSequence(')');
+      this.expect(')', position);
+      return node;
+    }
+
+    // Gmail shorthand: {a b} matches either term
+    if (char === '{') {
+      this.pos++;
+      const children: QueryNode[] = [];
+      for (;;) {
+        this.skipSpace();
+        if (this.pos >= this.input.length) throw new SearchQueryError('missing closing "}"', position);
+        if (this.input[this.pos] === '}') break;
+        if (this.peekWord() === 'OR') {
+          this.pos += 2;
+          continue;
+        }
+        children.push(this.parseUnary());
+      }
+      this.pos++;
+      if (children.length === 0) throw new SearchQueryError('empty group', position);
+      return children.length === 1 ? children[0] : { type: 'or', children };
+    }
+
+    if (char === ')' || char === '}') {
+      throw new SearchQueryError(`unexpected "${char}"`, position);
+    }
+
+    if (char === '"') {
+      return { type: 'term', value: this.readQuoted(), position };
+    }
+
+    const word = this.readWord();
+    const match = /^([a-z_]+):(.*)$/i.exec(word);
+    if (!match) return { type: 'term', value: word, position };
+
+    const key = match[1].toLowerCase();
+    if (match[2]) return { type: 'term', key, value: match[2], position };
+
+    // key:"quoted phrase" or key:(several terms)
+    if (this.input[this.pos] === '"') {
+      return { type: 'term', key, value: this.readQuoted(), position };
+    }
+    if (this.input[this.pos] === '(') {
+      const open = this.pos++;
+      const node = this.parseSequence(')');
+      this.expect(')', open);
+      return applyKey(node, key);
+    }
+    throw new SearchQueryError(`missing value after "${key}:"`, position);
+  }
+
+  private readQuoted(): string {
+    const start = this.pos;
+    const end = this.input.indexOf('"', start + 1);
+    if (end === -1) throw new SearchQueryError('unterminated quote', start);
+    this.pos = end + 1;
+    return this.input.slice(start + 1, end);
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (this.pos < this.input.length && !/[\s(){}"]/.test(this.input[this.pos])) {
+      // A key's value may start with a quote or parenthesis
+      if (this.input[this.pos] === ':' && /["(]/.test(this.input[this.pos + 1] || '')) {
+        this.pos++;
+        break;
+      }
+      this.pos++;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  private peekWord(): string | undefined {
+    const match = /^[^\s(){}"]+/.exec(this.input.slice(this.pos));
+    return match?.[0];
+  }
+
+  private expect(char: string, openedAt: number): void {
+    this.skipSpace();
+    if (this.input[this.pos] !== char) {
+      throw new SearchQueryError(`missing closing "${char}"`, openedAt);
+    }
+    this.pos++;
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) this.pos++;
+  }
+}
+
+// subject:(release notes) applies the key to every bare term in the group
+function applyKey(node: QueryNode, key: string): QueryNode {
+  switch (node.type) {
+    case 'term':
+      return node.key ? node : { ...node, key };
+    case 'not':
+      return { ...node, child: applyKey(node.child, key) };
+    default:
+      return { ...node, children: node.children.map(child => applyKey(child, key)) };
+  }
+}
+
+function parseSize(value: string, position: number): number {
+  const match = /^(\d+(?:\.\d+)?)([kmg]?)b?$/i.exec(value);
+  if (!match) throw new SearchQueryError(`invalid size "${value}" (use e.g. 500K or 5M)`, position);
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+}
+
+function parseDays(value: string, position: number): number {
+  const match = /^(\d+)([dwmy])$/i.exec(value);
+  if (!match) throw new SearchQueryError(`invalid duration "${value}" (use e.g. 7d, 2w, 3m or 1y)`, position);
+  return parseInt(match[1]) * DURATION_DAYS[match[2].toLowerCase()];
+}
+
+// Accept YYYY/MM/DD and YYYY-MM-DD, as Gmail does
+function parseDate(value: string, position: number): string {
+  const match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(value);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  const date = match ? new Date(year, month - 1, day) : undefined;
+  if (!date || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw new SearchQueryError(`invalid date "${value}" (use YYYY-MM-DD or YYYY/MM/DD)`, position);
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function termCriteria(term: Extract<QueryNode, { type: 'term' }>, topLevel: boolean): SearchCriteria {
+  const { key, value, position } = term;
+  if (!key) return { text: value };
+
+  if ((TEXT_OPERATORS as readonly string[]).includes(key)) {
+    return { [key]: value };
+  }
+
+  switch (key) {
+    case 'is': {
+      const criteria = STATUS_CRITERIA[value.toLowerCase()];
+      if (!criteria) {
+        throw new SearchQueryError(`unknown status "is:${value}" (expected ${Object.keys(STATUS_CRITERIA).join(', ')})`, position);
+      }
+      return criteria;
+    }
+    case 'has':
+      if (!/^attachments?$/i.test(value)) {
+        throw new SearchQueryError(`unknown "has:${value}" (only has:attachment is supported)`, position);
+      }
+      if (!topLevel) {
+        throw new SearchQueryError('has:attachment cannot be combined with OR or used inside a negated group', position);
+      }
+      return { hasAttachments: true };
+    case 'larger':
+      return { larger: parseSize(value, position) };
+    case 'smaller':
+      return { smaller: parseSize(value, position) };
+    case 'after':
+    case 'newer':
+      return { sinceDate: parseDate(value, position) };
+    case 'before':
+    case 'older':
+      return { beforeDate: parseDate(value, position) };
+    case 'newer_than':
+      return { sinceDays: parseDays(value, position) };
+    case 'older_than':
+      return { beforeDays: parseDays(value, position) };
+    case 'keyword':
+      return { keyword: value };
+    default:
+      throw new SearchQueryError(`unknown operator "${key}:"`, position);
+  }
+}
+
+function nodePosition(node: QueryNode): number {
+  return 'children' in node ? nodePosition(node.children[0]) : node.position;
+}
+
+function toCriteria(node: QueryNode, topLevel: boolean): SearchCriteria {
+  switch (node.type) {
+    case 'term':
+      return termCriteria(node, topLevel);
+    case 'and': {
+      const items = node.children.map(child => toCriteria(child, topLevel));
+      // hasAttachments can't go into a nested group, so a contradiction is reported here
+      const first = items.findIndex(item => item.hasAttachments !== undefined);
+      const conflict = items.findIndex(item =>
+        item.hasAttachments !== undefined && item.hasAttachments !== items[first].hasAttachments
+      );
+      if (conflict !== -1) {
+        throw new SearchQueryError('has:attachment and -has:attachment cannot both apply', nodePosition(node.children[conflict]));
+      }
+      return mergeSearchCriteria(items);
+    }
+    case 'or':
+      return { or: node.children.map(child => toCriteria(child, false)) };
+    case 'not':
+      if (topLevel && node.child.type === 'term' && node.child.key === 'has') {
+        return { hasAttachments: !termCriteria(node.child, true).hasAttachments };
+      }
+      return { not: toCriteria(node.child, false) };
+  }
+}
+
+// The criteria themselves and their `and` groups, which all have to match
+function requiredGroups(criteria: SearchCriteria): SearchCriteria[] {
+  return [criteria, ...(criteria.and || []).flatMap(requiredGroups)];
+}
+
+const isSeenFlag = (flag: string) => flag.replace(/^\\/, '').toLowerCase() === 'seen';
+
+/**
+ * Combine criteria that must all match. Fields are merged into one object;
+ * a group whose fields are already taken with a different value goes into
+ * `and` instead. hasAttachments is checked after the server search and
+ * cannot be nested, so it always stays at the top level and contradicting
+ * values are rejected, as is unreadOnly together with the \Seen flag.
+ */
+export function mergeSearchCriteria(items: SearchCriteria[]): SearchCriteria {
+  const merged: SearchCriteria = {};
+  for (const { hasAttachments, ...item } of items) {
+    if (hasAttachments !== undefined) {
+      if (merged.hasAttachments !== undefined && hasAttachments !== merged.hasAttachments) {
+        throw new MailError('INVALID_ARGUMENT', 'hasAttachments is both required and excluded');
+      }
+      merged.hasAttachments = hasAttachments;
+    }
+    const conflicts = Object.entries(item).some(([key, value]) => {
+      const existing = merged[key as keyof SearchCriteria];
+      return existing !== undefined && JSON.stringify(existing) !== JSON.stringify(value);
+    });
+    if (conflicts) {
+      merged.and = [...(merged.and || []), item];
+    } else {
+      Object.assign(merged, item);
+    }
+  }
+
+  const required = requiredGroups(merged);
+  if (required.some(group => group.unreadOnly) && required.some(group => group.flags?.some(isSeenFlag))) {
+    throw new MailError('INVALID_ARGUMENT', 'unreadOnly (is:unread) and the \\Seen flag (is:read) cannot both apply');
+  }
+  return merged;
+}
+
+/**
+ * Parse a Gmail-style query such as
+ * `from:github is:unread older_than:7d has:attachment subject:(release notes)`
+ * into search criteria. Terms are ANDed; `OR` (or `{a b}`) gives alternatives,
+ * a leading `-` negates, parentheses group and quotes keep phrases together.
+ * Bare words match anywhere in the message. Throws SearchQueryError with the
+ * position of the offending token.
+ */
+export function parseSearchQuery(query: string): SearchCriteria {
+  if (!query.trim()) return {};
+  return toCriteria(new QueryParser(query).parse(), true);
+}
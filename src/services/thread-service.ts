@@ -0,0 +1,163 @@
+import { MailService, EmailSummary } from './mail-service.js';
+import { MailError } from './mail-errors.js';
+
+export interface ThreadMessage extends EmailSummary {
+  mailbox: string;
+}
+
+export interface ThreadNode<T extends EmailSummary = ThreadMessage> {
+  message: T;
+  children: ThreadNode<T>[];
+}
+
+export interface ThreadResult {
+  threads: ThreadNode[];
+  messageCount: number;
+  mailboxes: string[];
+  // Mailboxes whose lookup failed, so the thread may be missing messages from them
+  skippedMailboxes: Array<{ mailbox: string; error: string }>;
+  serverThreading: boolean;
+}
+
+// Keep IMAP OR-trees a manageable size
+const IDS_PER_SEARCH = 20;
+const MAX_EXPANSION_ROUNDS = 5;
+
+/**
+ * Arrange messages into reply trees using Message-ID / In-Reply-To /
+ * References. Copies of the same Message-ID keep the first occurrence;
+ * messages whose parent is unknown become roots. Siblings are ordered
+ * oldest first.
+ */
+export function buildThreads<T extends EmailSummary>(messages: T[]): ThreadNode<T>[] {
+  const nodes: ThreadNode<T>[] = [];
+  const byId = new Map<string, ThreadNode<T>>();
+
+  for (const message of messages) {
+    if (message.messageId && byId.has(message.messageId)) continue;
+    const node: ThreadNode<T> = { message, children: [] };
+    nodes.push(node);
+    if (message.messageId) byId.set(message.messageId, node);
+  }
+
+  const parentOf = new Map<ThreadNode<T>, ThreadNode<T>>();
+  const createsCycle = (node: ThreadNode<T>, parent: ThreadNode<T>): boolean => {
+    for (let current: ThreadNode<T> | undefined = parent; current; current = parentOf.get(current)) {
+      if (current === node) return true;
+    }
+    return false;
+  };
+
+  const roots: ThreadNode<T>[] = [];
+  for (const node of nodes) {
+    // In-Reply-To is the direct parent; otherwise the nearest known reference
+    const candidates = [node.message.inReplyTo, ...[...(node.message.references || [])].reverse()];
+    const parent = candidates
+      .map(id => (id ? byId.get(id) : undefined))
+      .find(candidate => candidate && candidate !== node && !createsCycle(node, candidate));
+
+    if (parent) {
+      parent.children.push(node);
+      parentOf.set(node, parent);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sort = (list: ThreadNode<T>[]) => {
+    list.sort((a, b) => a.message.date.getTime() - b.message.date.getTime());
+    list.forEach(node => sort(node.children));
+  };
+  sort(roots);
+
+  return roots;
+}
+
+export function countThreadMessages(nodes: ThreadNode<any>[]): number {
+  return nodes.reduce((total, node) => total + 1 + countThreadMessages(node.children), 0);
+}
+
+export class ThreadService {
+  private mailService: MailService;
+
+  constructor(mailService: MailService) {
+    this.mailService = mailService;
+  }
+
+  /**
+   * Collect the conversation containing `uid` from its own mailbox, INBOX,
+   * the Sent folder and any extra mailboxes, following header references
+   * until no new Message-IDs turn up.
+   */
+  async getThread(
+    mailbox: string,
+    uid: number,
+    options: { mailboxes?: string[] } = {}
+  ): Promise<ThreadResult> {
+    const origin = await this.mailService.getEmailDetails(mailbox, uid);
+    if (!origin) throw new MailError('UID_NOT_FOUND', `Email with UID ${uid} not found`);
+
+    const sent = await this.mailService.getSentMailbox().catch(() => undefined);
+    const mailboxes = [...new Set([mailbox, 'INBOX', ...(sent ? [sent] : []), ...(options.mailboxes || [])])];
+
+    const messages = new Map<string, ThreadMessage>();
+    const knownIds = new Set<string>();
+    let pending: string[] = [];
+
+    const addMessage = (box: string, email: EmailSummary) => {
+      const key = `${box}:${email.uid}`;
+      if (!messages.has(key)) {
+        messages.set(key, { ...email, mailbox: box });
+      }
+      for (const id of [email.messageId, email.inReplyTo, ...(email.references || [])]) {
+        if (id && !knownIds.has(id)) {
+          knownIds.add(id);
+          pending.push(id);
+        }
+      }
+    };
+
+    const { textContent, htmlContent, attachments, headers, cc, replyTo, ...summary } = origin;
+    addMessage(mailbox, summary);
+
+    // THREAD=REFERENCES also catches replies that only share a subject
+    const serverUids = await this.mailService.getThreadUids(mailbox, uid);
+    if (serverUids && serverUids.length > 1) {
+      const summaries = await this.mailService.getEmailSummaries(mailbox, serverUids);
+      summaries.forEach(email => addMessage(mailbox, email));
+    }
+
+    const skipped = new Map<string, string>();
+    for (let round = 0; round < MAX_EXPANSION_ROUNDS && pending.length > 0; round++) {
+      const ids = pending;
+      pending = [];
+
+      for (const box of mailboxes.filter(box => !skipped.has(box))) {
+        for (let i = 0; i < ids.length; i += IDS_PER_SEARCH) {
+          try {
+            const found = await this.mailService.findByMessageIds(box, ids.slice(i, i + IDS_PER_SEARCH));
+            found.forEach(email => addMessage(box, email));
+          } catch (error) {
+            // A configured mailbox that does not exist shouldn't sink the whole lookup; it is reported instead
+            skipped.set(box, error instanceof Error ? error.message : String(error));
+            break;
+          }
+        }
+      }
+    }
+
+    // List the origin mailbox first so its copy wins when a message is in several folders
+    const ordered = [...messages.values()].sort(
+      (a, b) => Number(b.mailbox === mailbox) - Number(a.mailbox === mailbox)
+    );
+    const threads = buildThreads(ordered);
+
+    return {
+      threads,
+      messageCount: countThreadMessages(threads),
+      mailboxes,
+      skippedMailboxes: [...skipped].map(([box, error]) => ({ mailbox: box, error })),
+      serverThreading: serverUids !== null,
+    };
+  }
+}
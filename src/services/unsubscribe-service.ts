@@ -0,0 +1,344 @@
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { MailService, SearchCriteria } from './mail-service.js';
+import { MailError } from './mail-errors.js';
+
+export interface UnsubscribeMethods {
+  // RFC 8058: an https URL plus List-Unsubscribe-Post: List-Unsubscribe=One-Click
+  oneClick?: string;
+  mailto?: string;
+  // A page that has to be opened in a browser
+  web?: string;
+}
+
+export interface Subscription {
+  // List-Id when present, otherwise the sender address
+  key: string;
+  listId?: string;
+  sender: string;
+  senderName?: string;
+  mailbox: string;
+  count: number;
+  unread: number;
+  latestDate: Date;
+  latestSubject: string;
+  uids: number[];
+  // Taken from the newest message, whose links are the most likely to still work
+  methods: UnsubscribeMethods;
+}
+
+export type UnsubscribeMethod = 'one-click' | 'mailto' | 'web';
+
+export interface UnsubscribeResult {
+  subscription: Subscription;
+  method: UnsubscribeMethod;
+  target: string;
+  preview: boolean;
+  performed: boolean;
+  // HTTP status of the one-click POST
+  status?: number;
+  // Message-ID of the unsubscribe email
+  messageId?: string;
+  followUp?: {
+    action: 'move' | 'delete';
+    uids: number[];
+    destination?: string;
+    operationId?: string;
+    // Set when the unsubscribe went out but moving or deleting the mail failed
+    error?: string;
+  };
+}
+
+const UNSUBSCRIBE_HEADERS = ['list-id', 'list-unsubscribe', 'list-unsubscribe-post'];
+const DEFAULT_SCAN_LIMIT = 1000;
+const DEFAULT_TIMEOUT_MS = 15000;
+// How long unsubscribe may look a subscription up in the last findSubscriptions scan
+const SCAN_REUSE_MS = 5 * 60 * 1000;
+
+/**
+ * Split a List-Unsubscribe header (RFC 2369) into its <...> URIs, keeping
+ * http(s) and mailto ones.
+ */
+export function parseListUnsubscribe(value: string | undefined): { http: string[]; mailto: string[] } {
+  const uris = [...(value || '').matchAll(/<\s*([^>]+?)\s*>/g)].map(match => match[1].replace(/\s+/g, ''));
+  return {
+    http: uris.filter(uri => /^https?:\/\//i.test(uri)),
+    mailto: uris.filter(uri => /^mailto:/i.test(uri)),
+  };
+}
+
+// mailto:list@example.com?subject=unsubscribe&body=... (RFC 6068)
+export function parseMailto(uri: string): { to: string[]; subject?: string; body?: string } {
+  const [address, query = ''] = uri.replace(/^mailto:/i, '').split('?', 2);
+  const params = new URLSearchParams(query.replace(/\+/g, '%2B'));
+  const to = [
+    ...decodeURIComponent(address).split(','),
+    ...(params.get('to') || '').split(','),
+  ].map(item => item.trim()).filter(Boolean);
+
+  return {
+    to,
+    subject: params.get('subject') ?? undefined,
+    body: params.get('body') ?? undefined,
+  };
+}
+
+function listIdOf(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const id = value.match(/<([^>]+)>/)?.[1] ?? value;
+  return id.trim().toLowerCase() || undefined;
+}
+
+/**
+ * Finds mailing lists and newsletters by their List-Unsubscribe headers and
+ * unsubscribes from them, either with an RFC 8058 one-click POST or by
+ * sending the mailto: request through the account's SMTP transport.
+ * Plain http:// URLs are refused unless `allowHttp` (MAIL_UNSUBSCRIBE_ALLOW_HTTP)
+ * is set, which is meant for testing against a local server.
+ */
+export class UnsubscribeService {
+  private mailService: MailService;
+  private allowHttp: boolean;
+  private timeoutMs: number;
+  private lastScan?: { at: number; mailbox: string; scanLimit: number; subscriptions: Subscription[] };
+
+  constructor(mailService: MailService, options: { allowHttp?: boolean; timeoutMs?: number } = {}) {
+    this.mailService = mailService;
+    this.allowHttp = options.allowHttp ?? process.env.MAIL_UNSUBSCRIBE_ALLOW_HTTP === 'true';
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Group the newest `scanLimit` messages carrying List-Unsubscribe by
+   * List-Id, or by sender when there is none. Largest groups come first.
+   */
+  async findSubscriptions(
+    options: { mailbox?: string; sinceDays?: number; scanLimit?: number } = {}
+  ): Promise<{ mailbox: string; scanned: number; subscriptions: Subscription[] }> {
+    const mailbox = options.mailbox || 'INBOX';
+    const scanLimit = options.scanLimit ?? DEFAULT_SCAN_LIMIT;
+    const emails = await this.mailService.searchEmails({
+      mailbox,
+      header: { name: 'List-Unsubscribe', value: '' },
+      sinceDays: options.sinceDays,
+      limit: scanLimit,
+    });
+    const headers = await this.mailService.fetchHeaders(mailbox, emails.map(email => email.uid), UNSUBSCRIBE_HEADERS);
+
+    const groups = new Map<string, Subscription>();
+    // Newest first, so the first message seen in a group supplies its methods
+    for (const email of [...emails].sort((a, b) => b.date.getTime() - a.date.getTime())) {
+      const fields = headers.get(email.uid) || {};
+      const [from] = addressparser(email.from, { flatten: true });
+      const sender = (from?.address || email.from).toLowerCase();
+      const listId = listIdOf(fields['list-id']);
+      const key = listId || sender;
+
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          key,
+          listId,
+          sender,
+          senderName: from?.name || undefined,
+          mailbox,
+          count: 0,
+          unread: 0,
+          latestDate: email.date,
+          latestSubject: email.subject,
+          uids: [],
+          methods: this.methodsOf(fields),
+        };
+        groups.set(key, group);
+      }
+
+      group.count++;
+      if (!email.flags.includes('\\Seen')) group.unread++;
+      group.uids.push(email.uid);
+    }
+
+    const subscriptions = [...groups.values()]
+      .map(group => ({ ...group, uids: group.uids.sort((a, b) => a - b) }))
+      .sort((a, b) => b.count - a.count || b.latestDate.getTime() - a.latestDate.getTime());
+
+    this.lastScan = { at: Date.now(), mailbox, scanLimit, subscriptions };
+    return { mailbox, scanned: emails.length, subscriptions };
+  }
+
+  /**
+   * Unsubscribe from the subscription identified by `key` (List-Id or sender
+   * address, as reported by findSubscriptions) or by one of its messages.
+   * One-click is preferred over mailto unless `method` says otherwise. With
+   * `preview`, nothing is sent. `followUp` moves or deletes (to
+   * `trashMailbox`, or the account's Trash) the existing mail of that list or
+   * sender once the request has gone out; if that fails, the result still
+   * reports the unsubscribe as performed. A preview lists the emails found by
+   * the scan; the rest of the list's mail is searched for when it is sent.
+   */
+  async unsubscribe(options: {
+    mailbox?: string;
+    key?: string;
+    uid?: number;
+    method?: 'one-click' | 'mailto';
+    preview?: boolean;
+    followUp?: 'move' | 'delete';
+    destination?: string;
+    trashMailbox?: string;
+    scanLimit?: number;
+  }): Promise<UnsubscribeResult> {
+    if (!options.key && !options.uid) {
+      throw new MailError('INVALID_ARGUMENT', 'Either "key" or "uid" is required');
+    }
+    if (options.followUp === 'move' && !options.destination) {
+      throw new MailError('INVALID_ARGUMENT', '"destination" is required when followUp is "move"');
+    }
+
+    const subscription = await this.findSubscription(options);
+    const { method, target } = this.chooseMethod(subscription, options.method);
+    const preview = options.preview !== false;
+    const result: UnsubscribeResult = { subscription, method, target, preview, performed: false };
+
+    if (options.followUp) {
+      result.followUp = { action: options.followUp, uids: subscription.uids, destination: options.destination };
+    }
+    if (preview) return result;
+
+    if (method === 'web') {
+      throw new MailError(
+        'NOT_SUPPORTED',
+        `"${subscription.key}" only offers an unsubscribe page; open ${target} in a browser`
+      );
+    }
+
+    if (method === 'one-click') {
+      result.status = await this.postOneClick(target);
+    } else {
+      result.messageId = await this.sendMailto(target);
+    }
+    result.performed = true;
+
+    // The request cannot be taken back, so a failed follow-up is reported rather than thrown
+    if (result.followUp) {
+      try {
+        const uids = await this.followUpUids(subscription);
+        result.followUp.uids = uids;
+        if (uids.length > 0) {
+          result.followUp.operationId = options.followUp === 'move'
+            ? await this.mailService.moveEmails(subscription.mailbox, uids, options.destination!)
+            : await this.mailService.deleteEmails(subscription.mailbox, uids, { trashMailbox: options.trashMailbox });
+        }
+      } catch (error) {
+        result.followUp.error = error instanceof Error ? error.message : String(error);
+      }
+      // The moved mail would still be listed by the last scan
+      this.lastScan = undefined;
+    }
+
+    return result;
+  }
+
+  private methodsOf(fields: Record<string, string>): UnsubscribeMethods {
+    const { http, mailto } = parseListUnsubscribe(fields['list-unsubscribe']);
+    const oneClick = /list-unsubscribe\s*=\s*one-click/i.test(fields['list-unsubscribe-post'] || '')
+      ? http.find(url => this.isPostable(url))
+      : undefined;
+
+    return Object.fromEntries(Object.entries({
+      oneClick,
+      mailto: mailto[0],
+      web: http.find(url => url !== oneClick),
+    }).filter(([, value]) => value !== undefined));
+  }
+
+  private isPostable(url: string): boolean {
+    return /^https:\/\//i.test(url) || (this.allowHttp && /^http:\/\//i.test(url));
+  }
+
+  // Looks in the last findSubscriptions scan first, so a listing followed by an unsubscribe scans once
+  private async findSubscription(options: { mailbox?: string; key?: string; uid?: number; scanLimit?: number }): Promise<Subscription> {
+    const mailbox = options.mailbox || 'INBOX';
+    const scanLimit = options.scanLimit ?? DEFAULT_SCAN_LIMIT;
+    const key = options.key?.trim().toLowerCase();
+    const find = (subscriptions: Subscription[]) => subscriptions.find(subscription =>
+      key ? subscription.key === key || subscription.sender === key : subscription.uids.includes(options.uid!)
+    );
+
+    const scan = this.lastScan;
+    const recent = scan && scan.mailbox === mailbox && scan.scanLimit >= scanLimit && Date.now() - scan.at < SCAN_REUSE_MS;
+    const match = (recent && find(scan.subscriptions))
+      || find((await this.findSubscriptions({ mailbox, scanLimit })).subscriptions);
+
+    if (!match) {
+      throw new MailError(
+        'NOT_FOUND',
+        key
+          ? `No subscription "${options.key}" found in "${mailbox}"`
+          : `Email with UID ${options.uid} has no List-Unsubscribe header or was not found`
+      );
+    }
+    return match;
+  }
+
+  private chooseMethod(subscription: Subscription, preferred?: 'one-click' | 'mailto'): { method: UnsubscribeMethod; target: string } {
+    const { oneClick, mailto, web } = subscription.methods;
+    if (preferred === 'one-click' && !oneClick) {
+      throw new MailError('NOT_SUPPORTED', `"${subscription.key}" does not support one-click unsubscribe`);
+    }
+    if (preferred === 'mailto' && !mailto) {
+      throw new MailError('NOT_SUPPORTED', `"${subscription.key}" has no mailto: unsubscribe address`);
+    }
+
+    if (oneClick && preferred !== 'mailto') return { method: 'one-click', target: oneClick };
+    if (mailto) return { method: 'mailto', target: mailto };
+    if (web) return { method: 'web', target: web };
+    throw new MailError('NOT_SUPPORTED', `"${subscription.key}" has no usable unsubscribe link`);
+  }
+
+  // Everything from the list, or from the sender when the mail has no List-Id
+  private async followUpUids(subscription: Subscription): Promise<number[]> {
+    const criteria: SearchCriteria = subscription.listId
+      ? { mailbox: subscription.mailbox, header: { name: 'List-Id', value: subscription.listId } }
+      : { mailbox: subscription.mailbox, from: subscription.sender };
+    // Searched afresh rather than merged with subscription.uids, which may come from an older scan
+    const emails = await this.mailService.searchEmails(criteria);
+    return emails.map(email => email.uid).sort((a, b) => a - b);
+  }
+
+  // RFC 8058 section 3.1; redirects are not followed and credentials are never sent
+  private async postOneClick(url: string): Promise<number> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'List-Unsubscribe=One-Click',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new MailError('CONNECTION_FAILED', `One-click unsubscribe request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (response.status >= 400) {
+      throw new MailError('SERVER_ERROR', `One-click unsubscribe was rejected by ${new URL(url).host} (HTTP ${response.status})`);
+    }
+    return response.status;
+  }
+
+  private async sendMailto(uri: string): Promise<string | undefined> {
+    const { to, subject, body } = parseMailto(uri);
+    if (to.length === 0) {
+      throw new MailError('INVALID_ARGUMENT', `Unsubscribe address ${uri} has no recipient`);
+    }
+
+    const result = await this.mailService.sendMail({
+      to,
+      subject: subject || 'unsubscribe',
+      text: body || 'unsubscribe',
+      saveToSent: false,
+    });
+    if (!result.success) {
+      throw new MailError('SEND_FAILED', `Unsubscribe email to ${to.join(', ')} failed: ${result.error}`);
+    }
+    return result.messageId;
+  }
+}
@@ -0,0 +1,409 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export interface ValidationError {
+  field: string;
+  message: string;
+  receivedType: string;
+  receivedValue: any;
+}
+
+/*
+ * Tool arguments as zod schemas. The advertised JSON Schemas are generated
+ * from these, and every call is parsed with them before a handler runs.
+ * MCP clients often send numbers, booleans and arrays as strings, so those
+ * are converted before validation.
+ */
+
+function parseNumber(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+function parseBoolean(value: unknown): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+// '[1, 2]' (an array serialized as JSON), '1, 2' and a lone value all become arrays
+function parseList(value: unknown): unknown {
+  if (typeof value === 'number') return [value];
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim();
+  if (text.startsWith('[') && text.endsWith(']')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return value;
+    }
+  }
+  return text === '' ? [] : text.split(',').map(item => item.trim());
+}
+
+const number = (schema: z.ZodNumber) => z.preprocess(parseNumber, schema);
+const boolean = () => z.preprocess(parseBoolean, z.boolean());
+const list = <T extends z.ZodTypeAny>(schema: z.ZodArray<T>) => z.preprocess(parseList, schema);
+
+const UID = number(z.number().int('UIDs are whole numbers').positive('UIDs are positive'));
+const UID_LIST = list(z.array(UID).min(1, 'At least one UID is required'));
+const MAILBOX = z.string().trim().min(1, 'Mailbox name must not be empty');
+const MAILBOX_OR_INBOX = MAILBOX.default('INBOX');
+const STRING_LIST = list(z.array(z.string()));
+const FLAG_LIST = list(z.array(z.string().trim().min(1, 'Flags must not be empty')).min(1, 'At least one flag is required'));
+const DAYS = number(z.number().int().positive());
+const BYTES = number(z.number().int().nonnegative());
+// Replaced with the configured account names when tools are listed
+const ACCOUNT = z.string().optional();
+
+const INDEX_SOURCE = z.enum(['auto', 'index', 'server']).default('auto').describe(
+  'auto: answer from the local index (after an incremental sync) when the mailbox has been synced with sync_mailbox; index: use the index without contacting the server; server: always ask the IMAP server'
+);
+
+const RECIPIENTS = z.union([z.string(), z.array(z.string())]);
+
+const ATTACHMENTS = z.array(z.object({
+  filename: z.string().min(1, 'Attachment filename must not be empty'),
+  content: z.string(),
+  contentType: z.string().optional(),
+}));
+
+// Criteria shared by search_emails and its or/not groups
+const SEARCH_TERMS = {
+  from: z.string().optional(),
+  to: z.string().optional(),
+  cc: z.string().optional(),
+  bcc: z.string().optional(),
+  subject: z.string().optional(),
+  body: z.string().optional(),
+  text: z.string().optional().describe('Anywhere in the headers or body'),
+  header: z.object({ name: z.string().min(1), value: z.string() }).optional()
+    .describe('Header that must contain the value, e.g. {"name": "List-Id", "value": "dev"}'),
+  unreadOnly: boolean().optional(),
+  flagged: boolean().optional(),
+  answered: boolean().optional(),
+  keyword: z.string().optional().describe('Custom flag (IMAP keyword)'),
+  flags: STRING_LIST.optional().describe('Flags the email must have, e.g. ["\\Flagged"]'),
+  larger: BYTES.optional().describe('Minimum size in bytes'),
+  smaller: BYTES.optional().describe('Maximum size in bytes'),
+  uid: z.string().optional().describe('UID set, e.g. "100:200" or "5,9,20:*"'),
+  sinceDays: DAYS.optional(),
+  beforeDays: DAYS.optional(),
+  sinceDate: z.string().optional().describe('ISO date (YYYY-MM-DD), inclusive'),
+  beforeDate: z.string().optional().describe('ISO date (YYYY-MM-DD), exclusive'),
+};
+
+const MESSAGE_FIELDS = {
+  subject: z.string(),
+  text: z.string().optional(),
+  html: z.string().optional(),
+  attachments: ATTACHMENTS.optional(),
+};
+
+const DRAFT_FIELDS = {
+  to: RECIPIENTS.optional().describe('Recipient address(es), same formats as send_mail'),
+  cc: RECIPIENTS.optional(),
+  bcc: RECIPIENTS.optional(),
+  ...MESSAGE_FIELDS,
+};
+
+// Same shape as MailRule; RulesEngine.validateRule also checks the header regexes
+const NON_EMPTY = z.string().trim().min(1);
+const MAIL_RULE = z.object({
+  name: NON_EMPTY,
+  mailbox: MAILBOX.optional(),
+  enabled: boolean().optional(),
+  conditions: z.object({
+    from: NON_EMPTY.optional(),
+    to: NON_EMPTY.optional(),
+    subject: NON_EMPTY.optional(),
+    body: NON_EMPTY.optional(),
+    unreadOnly: boolean().optional(),
+    sinceDays: DAYS.optional(),
+    beforeDays: DAYS.optional(),
+    hasAttachments: boolean().optional(),
+    headers: z.record(z.string()).optional().describe('Header name -> case-insensitive regular expression'),
+  }).strict(),
+  actions: z.array(z.discriminatedUnion('type', [
+    z.object({ type: z.literal('move'), destination: MAILBOX }),
+    z.object({ type: z.literal('flag'), flags: FLAG_LIST }),
+    z.object({ type: z.literal('markSeen') }),
+    z.object({ type: z.literal('delete') }),
+  ])).min(1, 'At least one action is required'),
+});
+
+// Shared by find_duplicates and dedupe
+const DUPLICATE_SCAN = {
+  mailboxes: list(z.array(MAILBOX).min(1, 'At least one mailbox is required')).default(['INBOX'])
+    .describe('Mailboxes to compare, within and across each other'),
+  sinceDays: DAYS.optional().describe('Only consider emails received in the last N days'),
+  maxMessages: number(z.number().int().positive().max(100000)).default(10000).describe('Newest emails examined per mailbox'),
+};
+
+export const TOOL_INPUT_SCHEMAS = {
+  list_accounts: z.object({}),
+  list_mailboxes: z.object({ account: ACCOUNT }),
+  create_mailbox: z.object({
+    name: MAILBOX.describe('Mailbox name'),
+    account: ACCOUNT,
+  }),
+  search_emails: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    query: z.string().optional().describe(
+      'Gmail-style query, e.g. "from:github is:unread older_than:7d has:attachment subject:(release notes)". Supports from/to/cc/bcc/subject, is:unread/read/flagged, has:attachment, larger:/smaller: (5M), before:/after: (YYYY-MM-DD), newer_than:/older_than: (7d, 2w, 3m, 1y), OR, -negation, parentheses and "quoted phrases". Combined with any other criteria given'
+    ),
+    ...SEARCH_TERMS,
+    or: z.array(z.object(SEARCH_TERMS)).optional().describe('Match emails satisfying any of these groups'),
+    not: z.object(SEARCH_TERMS).optional().describe('Exclude emails matching this group'),
+    hasAttachments: boolean().optional(),
+    limit: number(z.number().int().positive().max(500)).default(50),
+    source: INDEX_SOURCE,
+    groupByThread: boolean().default(false).describe('Group results into conversation threads'),
+    account: ACCOUNT,
+  }),
+  get_email: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uid: UID,
+    markAsRead: boolean().default(false).describe('Set the \\Seen flag after reading'),
+    account: ACCOUNT,
+  }),
+  get_attachment: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uid: UID,
+    index: number(z.number().int().nonnegative()).optional().describe('Attachment index (0-based)'),
+    contentId: z.string().optional().describe('Content-ID of an inline attachment'),
+    nestedPath: list(z.array(number(z.number().int().nonnegative()))).optional().describe(
+      'Attachment indexes inside attached emails, e.g. [0] for the first attachment of the forwarded message at `index`'
+    ),
+    maxBytes: number(z.number().int().positive()).optional()
+      .describe('Size cap in bytes (default and maximum MAIL_ATTACHMENT_MAX_BYTES, 2 MB unless configured)'),
+    account: ACCOUNT,
+  }),
+  save_attachments: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uid: UID,
+    subdirectory: z.string().optional().describe('Folder inside the download directory to save into'),
+    filenamePattern: z.string().optional().describe('Only save attachments whose filename matches this glob, e.g. "*.pdf"'),
+    contentTypes: STRING_LIST.optional().describe('Only save these content types, e.g. ["application/pdf", "image/*"]'),
+    maxSize: BYTES.optional().describe('Skip attachments larger than this many bytes'),
+    account: ACCOUNT,
+  }),
+  get_thread: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uid: UID,
+    mailboxes: list(z.array(MAILBOX)).optional().describe('Additional mailboxes to search for thread messages'),
+    account: ACCOUNT,
+  }),
+  move_emails: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uids: UID_LIST,
+    destination: MAILBOX,
+    account: ACCOUNT,
+  }),
+  delete_emails: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uids: UID_LIST,
+    preview: boolean().default(true),
+    permanent: boolean().default(false).describe('Expunge the emails instead of moving them to Trash; cannot be undone'),
+    account: ACCOUNT,
+  }),
+  empty_trash: z.object({
+    olderThanDays: DAYS.optional().describe('Only delete emails received more than this many days ago'),
+    preview: boolean().default(true),
+    account: ACCOUNT,
+  }),
+  mark_seen: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uids: UID_LIST,
+    seen: boolean(),
+    account: ACCOUNT,
+  }),
+  add_flags: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uids: UID_LIST,
+    flags: FLAG_LIST,
+    account: ACCOUNT,
+  }),
+  remove_flags: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uids: UID_LIST,
+    flags: FLAG_LIST,
+    account: ACCOUNT,
+  }),
+  list_recent_operations: z.object({
+    limit: number(z.number().int().positive().max(500)).default(20).describe('Maximum number of operations to list'),
+    account: ACCOUNT,
+  }),
+  undo_operation: z.object({
+    operationId: z.string().trim().min(1, 'Operation ID must not be empty')
+      .describe('Operation ID from list_recent_operations or a tool result'),
+    account: ACCOUNT,
+  }),
+  delete_mailbox: z.object({
+    name: MAILBOX.describe('Mailbox name to delete'),
+    account: ACCOUNT,
+  }),
+  list_all_emails: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    page: number(z.number().int().positive()).default(1).describe('Page number (1-based); ignored when cursor is given'),
+    page_size: number(z.number().int().positive().max(100, 'At most 100 emails per page')).default(50)
+      .describe('Number of emails per page (max 100)'),
+    cursor: z.string().optional().describe('Cursor from a previous page to continue from'),
+    order: z.enum(['newest', 'oldest']).default('newest'),
+    source: INDEX_SOURCE,
+    account: ACCOUNT,
+  }),
+  sync_mailbox: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    includeBodies: boolean().optional().describe('Index plain text bodies for full-text search; remembered for later syncs'),
+    rebuild: boolean().default(false).describe('Discard the existing index and fetch everything again'),
+    account: ACCOUNT,
+  }),
+  index_status: z.object({
+    mailbox: MAILBOX.optional().describe('Only report this mailbox'),
+    account: ACCOUNT,
+  }),
+  watch_mailbox: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    account: ACCOUNT,
+  }),
+  unwatch_mailbox: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    account: ACCOUNT,
+  }),
+  send_mail: z.object({
+    to: RECIPIENTS.describe('Recipient address(es): "a@example.com", "Name <a@example.com>, b@example.com" or an array'),
+    cc: RECIPIENTS.optional(),
+    bcc: RECIPIENTS.optional(),
+    ...MESSAGE_FIELDS,
+    subject: z.string().min(1, 'Subject is required'),
+    saveToSent: boolean().optional().describe('Save a copy to the Sent folder (default: account setting, normally true)'),
+    account: ACCOUNT,
+  }),
+  reply_to_email: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uid: UID,
+    text: z.string().optional().describe('Reply text; the original message is quoted below it'),
+    html: z.string().optional(),
+    replyAll: boolean().default(false).describe('Also reply to the original To/Cc recipients'),
+    attachments: ATTACHMENTS.optional(),
+    account: ACCOUNT,
+  }),
+  forward_email: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    uid: UID,
+    to: RECIPIENTS.describe('Recipient address(es), same formats as send_mail'),
+    cc: RECIPIENTS.optional(),
+    text: z.string().optional().describe('Message placed above the forwarded content'),
+    html: z.string().optional(),
+    includeAttachments: boolean().default(true),
+    account: ACCOUNT,
+  }),
+  create_draft: z.object({
+    ...DRAFT_FIELDS,
+    subject: z.string().min(1, 'Subject is required'),
+    replyTo: z.object({ mailbox: MAILBOX_OR_INBOX, uid: UID }).optional().describe(
+      'Email this draft replies to: sets In-Reply-To and References so the reply stays in its thread, and "to" defaults to its sender'
+    ),
+    account: ACCOUNT,
+  }),
+  update_draft: z.object({
+    uid: UID.describe('Draft UID in the Drafts folder'),
+    ...DRAFT_FIELDS,
+    subject: z.string().optional(),
+    account: ACCOUNT,
+  }),
+  list_drafts: z.object({ account: ACCOUNT }),
+  send_draft: z.object({
+    uid: UID.describe('Draft UID in the Drafts folder'),
+    account: ACCOUNT,
+  }),
+  list_rules: z.object({ account: ACCOUNT }),
+  test_rule: z.object({
+    name: z.string().optional().describe('Name of a rule from the rules file'),
+    rule: MAIL_RULE.optional().describe('Inline rule, in the same form as an entry of the rules file'),
+    account: ACCOUNT,
+  }),
+  apply_rules: z.object({
+    names: STRING_LIST.optional().describe('Only apply these rules (default: all enabled rules)'),
+    dryRun: boolean().default(true),
+    account: ACCOUNT,
+  }),
+  find_subscriptions: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    sinceDays: DAYS.optional().describe('Only look at emails received in the last N days'),
+    scanLimit: number(z.number().int().positive().max(5000)).default(1000)
+      .describe('How many of the newest emails with a List-Unsubscribe header to examine'),
+    account: ACCOUNT,
+  }),
+  unsubscribe: z.object({
+    mailbox: MAILBOX_OR_INBOX,
+    key: z.string().trim().min(1).optional().describe('Subscription key from find_subscriptions (List-Id or sender address)'),
+    uid: UID.optional().describe('Any email from the subscription, instead of key'),
+    method: z.enum(['one-click', 'mailto']).optional().describe('Default: one-click when offered, otherwise mailto'),
+    preview: boolean().default(true),
+    followUp: z.enum(['move', 'delete']).optional()
+      .describe("After unsubscribing, move or delete (to Trash) the list's or sender's existing emails in the mailbox"),
+    destination: MAILBOX.optional().describe('Target mailbox for followUp "move"'),
+    trashMailbox: MAILBOX.optional().describe('Where followUp "delete" moves the emails (default: the account\'s Trash folder)'),
+    account: ACCOUNT,
+  }),
+  mailbox_stats: z.object({
+    mailboxes: list(z.array(MAILBOX).min(1, 'At least one mailbox is required')).default(['INBOX']),
+    sinceDays: DAYS.optional().describe('Only count emails received in the last N days'),
+    maxMessages: number(z.number().int().positive().max(100000)).default(10000)
+      .describe('Newest emails examined per mailbox; results say when a mailbox was truncated'),
+    top: number(z.number().int().positive().max(50)).default(10).describe('Entries in each top senders / domains list'),
+    largest: number(z.number().int().positive().max(100)).default(10).describe('Number of largest emails to list'),
+    account: ACCOUNT,
+  }),
+  find_duplicates: z.object({
+    ...DUPLICATE_SCAN,
+    limit: number(z.number().int().positive().max(1000)).default(100).describe('Maximum number of duplicate groups to list'),
+    account: ACCOUNT,
+  }),
+  dedupe: z.object({
+    ...DUPLICATE_SCAN,
+    preferredMailboxes: list(z.array(MAILBOX)).optional()
+      .describe('Keep the copy in the first of these mailboxes that has one; otherwise the oldest copy is kept'),
+    keys: STRING_LIST.optional().describe('Only deduplicate these groups (keys from find_duplicates)'),
+    preview: boolean().default(true),
+    account: ACCOUNT,
+  }),
+};
+
+export type ToolName = keyof typeof TOOL_INPUT_SCHEMAS;
+export type ToolInput<K extends ToolName> = z.infer<(typeof TOOL_INPUT_SCHEMAS)[K]>;
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+export function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(TOOL_INPUT_SCHEMAS, name);
+}
+
+export function toolInputSchema(name: ToolName): ToolInputSchema {
+  const { $schema, ...schema } = zodToJsonSchema(TOOL_INPUT_SCHEMAS[name], { $refStrategy: 'none' }) as ToolInputSchema & { $schema?: string };
+  return schema;
+}
+
+// One entry per problem, with the offending value as the client sent it
+export function validationErrors(error: z.ZodError, input: unknown): ValidationError[] {
+  return error.issues.map(issue => {
+    // Stop at strings: a JSON array sent as a string has no parts to point into
+    const value = issue.path.reduce<any>(
+      (current, key) => (current !== null && typeof current === 'object' ? current[key] : current),
+      input
+    );
+    return {
+      field: issue.path.join('.') || 'arguments',
+      message: issue.message,
+      receivedType: Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value,
+      receivedValue: value,
+    };
+  });
+}
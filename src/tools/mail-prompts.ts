@@ -0,0 +1,294 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { EmailDetails, EmailSummary, SearchCriteria } from '../services/mail-service.js';
+import { MailAccount } from '../services/account-manager.js';
+import { ThreadMessage, ThreadNode } from '../services/thread-service.js';
+import { MailTools } from './mail-tools.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+const ACCOUNT_ARGUMENT: PromptArgument = {
+  name: 'account',
+  description: 'Mail account to use (default account when omitted)',
+};
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'triage_inbox',
+    description: 'Sort recent unread mail into what needs a reply, what to read later and what can be archived',
+    arguments: [
+      { name: 'mailbox', description: 'Mailbox to triage (default INBOX)' },
+      { name: 'days', description: 'How many days back to look (default 7)' },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'summarize_thread',
+    description: 'Summarize the conversation an email belongs to: decisions, open questions and action items',
+    arguments: [
+      { name: 'uid', description: 'UID of any email in the thread', required: true },
+      { name: 'mailbox', description: 'Mailbox containing the email (default INBOX)' },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'draft_reply',
+    description: 'Draft a reply to an email and save it to Drafts for review',
+    arguments: [
+      { name: 'uid', description: 'UID of the email to reply to', required: true },
+      { name: 'tone', description: 'Tone of the reply, e.g. friendly, formal, brief (default professional)' },
+      { name: 'mailbox', description: 'Mailbox containing the email (default INBOX)' },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'cleanup_newsletters',
+    description: 'Find newsletters and mailing-list mail and propose what to archive, delete or unsubscribe from',
+    arguments: [
+      { name: 'mailbox', description: 'Mailbox to clean up (default INBOX)' },
+      { name: 'days', description: 'How many days back to look (default 30)' },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+];
+
+// Keep prompts within a reasonable context budget
+const TRIAGE_LIMIT = 50;
+const NEWSLETTER_LIMIT = 200;
+const THREAD_MESSAGE_LIMIT = 20;
+const BODY_MAX_CHARS = 4000;
+
+function truncate(text: string | undefined, maxChars = BODY_MAX_CHARS): string {
+  const body = (text || '(No text content)').trim();
+  return body.length > maxChars ? `${body.slice(0, maxChars)}\n[… truncated]` : body;
+}
+
+function summaryLine(email: EmailSummary): string {
+  return `- UID ${email.uid} | ${email.date.toISOString()} | ${email.from} | ${email.subject}` +
+    `${email.flags.includes('\\Seen') ? '' : ' | unread'}${email.hasAttachments ? ' | attachments' : ''}`;
+}
+
+function renderEmail(email: EmailDetails, mailbox: string): string {
+  return [
+    `Mailbox: ${mailbox}, UID: ${email.uid}`,
+    `From: ${email.from}`,
+    `To: ${email.to}`,
+    ...(email.cc ? [`Cc: ${email.cc}`] : []),
+    `Subject: ${email.subject}`,
+    `Date: ${email.date.toISOString()}`,
+    ...(email.attachments.length > 0 ? [`Attachments: ${email.attachments.map(att => att.filename).join(', ')}`] : []),
+    '',
+    truncate(email.textContent),
+  ].join('\n');
+}
+
+function flattenThread(nodes: ThreadNode[]): ThreadMessage[] {
+  return nodes.flatMap(node => [node.message, ...flattenThread(node.children)]);
+}
+
+function parseDays(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `days must be a positive whole number, got "${value}"`);
+  }
+  return days;
+}
+
+function parseUid(value: string | undefined): number {
+  const uid = Number(value);
+  if (!value || !Number.isInteger(uid) || uid <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `uid must be a positive whole number, got "${value ?? ''}"`);
+  }
+  return uid;
+}
+
+/**
+ * Ready-made prompts for common mail workflows. Each prompt fetches the
+ * relevant mail up front and embeds it, so the client only has to pick
+ * the prompt and fill in a few arguments.
+ */
+export class MailPrompts {
+  private tools: MailTools;
+
+  constructor(tools: MailTools) {
+    this.tools = tools;
+  }
+
+  async registerPrompts(server: Server): Promise<void> {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const definition = PROMPTS.find(prompt => prompt.name === name);
+      if (!definition) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt "${name}"`);
+      }
+
+      let account: MailAccount;
+      try {
+        account = this.tools.getAccounts().get(args.account);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+
+      let text: string;
+      switch (name) {
+        case 'triage_inbox':
+          text = await this.triageInbox(account, args);
+          break;
+        case 'summarize_thread':
+          text = await this.summarizeThread(account, args);
+          break;
+        case 'draft_reply':
+          text = await this.draftReply(account, args);
+          break;
+        default:
+          text = await this.cleanupNewsletters(account, args);
+          break;
+      }
+
+      return {
+        description: definition.description,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+      };
+    });
+  }
+
+  // Prefer the local index when the mailbox has been synced
+  private async search(account: MailAccount, criteria: SearchCriteria): Promise<EmailSummary[]> {
+    const indexed = await account.mailIndex.search(criteria);
+    return indexed ? indexed.emails : account.mailService.searchEmails(criteria);
+  }
+
+  private async triageInbox(account: MailAccount, args: Record<string, string>): Promise<string> {
+    const mailbox = args.mailbox || 'INBOX';
+    const days = parseDays(args.days, 7);
+    const emails = await this.search(account, { mailbox, unreadOnly: true, sinceDays: days, limit: TRIAGE_LIMIT });
+
+    const listing = emails.length > 0
+      ? emails.map(summaryLine).join('\n')
+      : '(no unread mail)';
+
+    return [
+      `Please triage my unread mail in "${mailbox}" (account "${account.name}") from the last ${days} days.`,
+      '',
+      'Sort every message into one of these groups and give a one-line reason for each:',
+      '1. Needs a reply from me (most urgent first)',
+      '2. Needs action but no reply',
+      '3. Read later',
+      '4. Can be archived or deleted',
+      '',
+      'Use get_email to read a message when the subject alone is not enough. Do not move, delete or flag anything until I confirm; then use move_emails, delete_emails or add_flags with the UIDs below.',
+      '',
+      `Unread messages (${emails.length}${emails.length >= TRIAGE_LIMIT ? `, showing the ${TRIAGE_LIMIT} most recent` : ''}):`,
+      listing,
+    ].join('\n');
+  }
+
+  private async summarizeThread(account: MailAccount, args: Record<string, string>): Promise<string> {
+    const mailbox = args.mailbox || 'INBOX';
+    const uid = parseUid(args.uid);
+    const thread = await account.threadService.getThread(mailbox, uid);
+
+    const messages = flattenThread(thread.threads)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(-THREAD_MESSAGE_LIMIT);
+
+    const transcript: string[] = [];
+    for (const message of messages) {
+      const email = await account.mailService.getEmailDetails(message.mailbox, message.uid);
+      if (email) transcript.push(renderEmail(email, message.mailbox));
+    }
+
+    return [
+      `Please summarize this email conversation (${thread.messageCount} messages${thread.messageCount > messages.length ? `, the latest ${messages.length} included below` : ''}).`,
+      ...(thread.skippedMailboxes.length > 0
+        ? [`Note: ${thread.skippedMailboxes.map(skipped => skipped.mailbox).join(', ')} could not be searched, so messages may be missing.`]
+        : []),
+      '',
+      'Cover: what the thread is about, decisions made, open questions, and action items with owners and deadlines where stated. Keep it short and quote only where wording matters.',
+      '',
+      'Messages, oldest first:',
+      '',
+      transcript.join('\n\n=====\n\n'),
+    ].join('\n');
+  }
+
+  private async draftReply(account: MailAccount, args: Record<string, string>): Promise<string> {
+    const mailbox = args.mailbox || 'INBOX';
+    const uid = parseUid(args.uid);
+    const tone = args.tone || 'professional';
+
+    const email = await account.mailService.getEmailDetails(mailbox, uid);
+    if (!email) {
+      throw new McpError(ErrorCode.InvalidParams, `Email with UID ${uid} not found in ${mailbox}`);
+    }
+
+    return [
+      `Please draft a reply to the email below in a ${tone} tone.`,
+      '',
+      'Answer every question it asks, keep it concise, and mark anything you cannot know with [TODO]. Show me the draft first; once I approve, save it with create_draft' +
+        ` (replyTo: { mailbox: ${JSON.stringify(mailbox)}, uid: ${uid} } so it stays in the thread, subject prefixed with "Re:")` +
+        `${account.name === this.tools.getAccounts().getDefaultName() ? '' : ` using account "${account.name}"`}` +
+        ', or send it with reply_to_email if I ask you to.',
+      '',
+      'Email:',
+      '',
+      renderEmail(email, mailbox),
+    ].join('\n');
+  }
+
+  private async cleanupNewsletters(account: MailAccount, args: Record<string, string>): Promise<string> {
+    const mailbox = args.mailbox || 'INBOX';
+    const days = parseDays(args.days, 30);
+
+    // Mailing lists and bulk senders carry List-Unsubscribe (RFC 2369)
+    const emails = await account.mailService.searchEmails({
+      mailbox,
+      sinceDays: days,
+      header: { name: 'List-Unsubscribe', value: '' },
+      limit: NEWSLETTER_LIMIT,
+    });
+
+    const bySender = new Map<string, EmailSummary[]>();
+    for (const email of emails) {
+      const list = bySender.get(email.from) || [];
+      list.push(email);
+      bySender.set(email.from, list);
+    }
+    const groups = [...bySender.entries()].sort((a, b) => b[1].length - a[1].length);
+
+    const listing = groups.length > 0
+      ? groups.map(([sender, messages]) => {
+        const unread = messages.filter(email => !email.flags.includes('\\Seen')).length;
+        return `${sender}: ${messages.length} messages (${unread} unread), UIDs ${messages.map(email => email.uid).join(', ')}\n` +
+          `  latest: ${messages[0].subject}`;
+      }).join('\n')
+      : '(no newsletters found)';
+
+    return [
+      `Please help me clean up newsletters and mailing-list mail in "${mailbox}" (account "${account.name}") from the last ${days} days.`,
+      '',
+      'For each sender below, recommend one of: keep, archive all, delete all, or unsubscribe and delete. Prefer unsubscribing from senders I never read (mostly unread). Present the plan as a table, wait for my confirmation, then carry it out with move_emails and delete_emails using the UIDs listed.',
+      '',
+      `Senders (${groups.length}, ${emails.length} messages${emails.length >= NEWSLETTER_LIMIT ? `, showing the ${NEWSLETTER_LIMIT} most recent` : ''}):`,
+      listing,
+    ].join('\n');
+  }
+}
@@ -0,0 +1,313 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { EmailDetails, EmailSummary } from '../services/mail-service.js';
+import { MailboxEvent } from '../services/mailbox-watcher.js';
+import { classifyAttachment, extractText, parseAttachedMessage } from '../services/attachment-extractor.js';
+import { MailTools } from './mail-tools.js';
+
+// mail://[{account}/]{mailbox}[/{uid}[/attachments/{index or cid}[/{nested index}...]]][?unread&limit=n]
+interface MailUri {
+  account: string;
+  mailbox: string;
+  uid?: number;
+  attachment?: string[];
+  unread: boolean;
+  limit?: number;
+}
+
+const DEFAULT_MAILBOX_LIMIT = 50;
+
+// Mailbox names may contain "/" and spaces, so every segment is percent-encoded
+export function mailUri(account: string, mailbox: string, ...rest: Array<string | number>): string {
+  return ['mail:/', account, mailbox, ...rest].map((part, index) => (index === 0 ? part : encodeURIComponent(String(part)))).join('/');
+}
+
+/**
+ * Parse a mail:// URI. The account segment is optional: when the first
+ * segment is not one of `accounts` it is read as the mailbox and
+ * `defaultAccount` is used, so a mailbox named like an account needs the
+ * account spelled out.
+ */
+export function parseMailUri(uri: string, accounts: string[], defaultAccount: string): MailUri {
+  const invalid = (reason: string) => new McpError(ErrorCode.InvalidParams, `Invalid mail resource URI "${uri}": ${reason}`);
+
+  const match = /^mail:\/\/([^?#]*)(?:\?([^#]*))?$/.exec(uri);
+  if (!match) throw invalid('expected mail://[{account}/]{mailbox}[/{uid}]');
+
+  const parts = match[1].split('/').map(part => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      throw invalid('malformed percent-encoding');
+    }
+  });
+  const named = parts.length > 1 && accounts.includes(parts[0].toLowerCase());
+  const account = named ? parts.shift()!.toLowerCase() : defaultAccount;
+
+  const [mailbox, uidText, section, ...attachment] = parts;
+  if (!mailbox) throw invalid('missing mailbox');
+
+  const uid = uidText !== undefined ? Number(uidText) : undefined;
+  if (uid !== undefined && (!Number.isInteger(uid) || uid <= 0)) throw invalid('UID must be a positive integer');
+  if (section !== undefined && (section !== 'attachments' || attachment.length === 0)) {
+    throw invalid('expected /attachments/{index} after the UID');
+  }
+
+  const params = new URLSearchParams(match[2] || '');
+  const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) throw invalid('limit must be a positive integer');
+
+  return {
+    account,
+    mailbox,
+    uid,
+    attachment: section ? attachment : undefined,
+    unread: params.has('unread'),
+    limit,
+  };
+}
+
+/**
+ * Exposes mail as MCP resources: mailboxes list their recent messages,
+ * messages render as Markdown and attachments are returned as text or
+ * base64 blobs. Subscribing to a mailbox or message URI starts an IDLE
+ * watcher and sends resources/updated when it changes.
+ */
+export class MailResources {
+  private tools: MailTools;
+  private server?: Server;
+  private subscriptions = new Set<string>();
+
+  constructor(tools: MailTools) {
+    this.tools = tools;
+  }
+
+  async registerResources(server: Server): Promise<void> {
+    this.server = server;
+    this.tools.onMailboxEvent((account, mailbox, event) => this.handleMailboxEvent(account, mailbox, event));
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = [];
+      for (const account of this.tools.getAccounts().list()) {
+        try {
+          const mailboxes = await account.mailService.listMailboxes();
+          for (const mailbox of mailboxes) {
+            resources.push({
+              uri: mailUri(account.name, mailbox),
+              name: `${mailbox} (${account.name})`,
+              description: `Most recent messages in ${mailbox}`,
+              mimeType: 'text/markdown',
+            });
+          }
+        } catch (error) {
+          console.error(`Could not list mailboxes for "${account.name}":`, error);
+        }
+      }
+      return { resources };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: 'mail://{account}/{mailbox}',
+          name: 'Mailbox',
+          description: `Most recent messages in a mailbox (mailbox name percent-encoded). Add ?unread for unread mail only and ?limit=n to change the default of ${DEFAULT_MAILBOX_LIMIT}`,
+          mimeType: 'text/markdown',
+        },
+        {
+          uriTemplate: 'mail://{account}/{mailbox}/{uid}',
+          name: 'Email',
+          description: 'An email rendered as Markdown: headers, attachment list and text body',
+          mimeType: 'text/markdown',
+        },
+        {
+          uriTemplate: 'mail://{account}/{mailbox}/{uid}/attachments/{index}',
+          name: 'Attachment',
+          description: 'An attachment by index (or percent-encoded Content-ID); append /{n} to open attachments of an attached email',
+        },
+        {
+          uriTemplate: 'mail://{mailbox}',
+          name: 'Mailbox (default account)',
+          description: 'A mailbox of the default account; accepts ?unread and ?limit=n like mail://{account}/{mailbox}',
+          mimeType: 'text/markdown',
+        },
+        {
+          uriTemplate: 'mail://{mailbox}/{uid}',
+          name: 'Email (default account)',
+          description: 'An email in a mailbox of the default account',
+          mimeType: 'text/markdown',
+        },
+        {
+          uriTemplate: 'mail://{mailbox}/{uid}/attachments/{index}',
+          name: 'Attachment (default account)',
+          description: 'An attachment of an email in a mailbox of the default account',
+        },
+      ],
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const target = this.parse(uri);
+      const account = this.getAccount(target.account);
+
+      if (target.uid === undefined) {
+        return { contents: [{ uri, mimeType: 'text/markdown', text: await this.renderMailbox(target) }] };
+      }
+
+      if (target.attachment) {
+        return { contents: [await this.readAttachment(uri, target)] };
+      }
+
+      const email = await account.mailService.getEmailDetails(target.mailbox, target.uid);
+      if (!email) {
+        throw new McpError(ErrorCode.InvalidParams, `Email with UID ${target.uid} not found in ${target.mailbox}`);
+      }
+      return { contents: [{ uri, mimeType: 'text/markdown', text: this.renderEmail(target, email) }] };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const target = this.parse(uri);
+      this.getAccount(target.account);
+
+      if (!this.subscriptions.has(uri)) {
+        this.subscriptions.add(uri);
+        try {
+          await this.tools.acquireWatcher(target.account, target.mailbox, uri);
+        } catch (error) {
+          this.subscriptions.delete(uri);
+          throw error;
+        }
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (this.subscriptions.delete(uri)) {
+        const target = this.parse(uri);
+        this.tools.releaseWatcher(target.account, target.mailbox, uri);
+      }
+      return {};
+    });
+  }
+
+  private parse(uri: string): MailUri {
+    const accounts = this.tools.getAccounts();
+    return parseMailUri(uri, accounts.list().map(account => account.name), accounts.getDefaultName());
+  }
+
+  private getAccount(name: string) {
+    try {
+      return this.tools.getAccounts().get(name);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private handleMailboxEvent(account: string, mailbox: string, event: MailboxEvent): void {
+    if (event.type === 'status' || !this.server) return;
+
+    for (const uri of this.subscriptions) {
+      const target = this.parse(uri);
+      if (target.account !== account || target.mailbox !== mailbox) continue;
+
+      // Message URIs only care about their own UID
+      const affected = target.uid === undefined
+        || (event.type === 'flags' && event.uid === target.uid)
+        || (event.type === 'expunge' && event.uids.includes(target.uid));
+      if (affected) {
+        this.server.sendResourceUpdated({ uri })
+          .catch(error => console.error('Failed to send resource update:', error));
+      }
+    }
+  }
+
+  private async renderMailbox(target: MailUri): Promise<string> {
+    const { mailService, mailIndex } = this.getAccount(target.account);
+    const criteria = {
+      mailbox: target.mailbox,
+      unreadOnly: target.unread || undefined,
+      limit: target.limit || DEFAULT_MAILBOX_LIMIT,
+    };
+    const indexed = await mailIndex.search(criteria);
+    const emails: EmailSummary[] = indexed ? indexed.emails : await mailService.searchEmails(criteria);
+
+    const title = `# ${target.mailbox}${target.unread ? ' (unread)' : ''} — ${target.account}`;
+    if (emails.length === 0) return `${title}\n\nNo messages.`;
+
+    const lines = emails.map(email =>
+      `- **${email.subject}** — ${email.from} — ${email.date.toISOString()}` +
+      `${email.flags.includes('\\Seen') ? '' : ' (unread)'}` +
+      `${email.hasAttachments ? ' 📎' : ''}\n  ${mailUri(target.account, target.mailbox, email.uid)}`
+    );
+    return `${title}\n\n${emails.length} most recent messages, newest first:\n\n${lines.join('\n')}`;
+  }
+
+  private renderEmail(target: MailUri, email: EmailDetails): string {
+    const lines = [
+      `# ${email.subject}`,
+      '',
+      `**From:** ${email.from}  `,
+      `**To:** ${email.to}  `,
+      ...(email.cc ? [`**Cc:** ${email.cc}  `] : []),
+      `**Date:** ${email.date.toISOString()}  `,
+      `**Flags:** ${email.flags.join(', ') || '(none)'}`,
+    ];
+
+    if (email.attachments.length > 0) {
+      lines.push('', '## Attachments', '');
+      email.attachments.forEach((att, index) => {
+        lines.push(
+          `- [${index}] ${att.filename} (${att.contentType}, ${att.size} bytes) — ` +
+          mailUri(target.account, target.mailbox, email.uid, 'attachments', index)
+        );
+      });
+    }
+
+    lines.push('', '---', '', email.textContent || '(No text content)');
+    return lines.join('\n');
+  }
+
+  private async readAttachment(uri: string, target: MailUri) {
+    const { mailService } = this.getAccount(target.account);
+    const [selector, ...nested] = target.attachment!;
+
+    const nestedPath = nested.map(Number);
+    if (nestedPath.some(index => !Number.isInteger(index) || index < 0)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Nested attachment indexes must be non-negative integers');
+    }
+    const index = /^\d+$/.test(selector) ? Number(selector) : undefined;
+
+    const { attachment } = await mailService.getAttachment(target.mailbox, target.uid!, {
+      index,
+      contentId: index === undefined ? selector : undefined,
+      nestedPath,
+    });
+
+    const maxBytes = this.tools.getAttachmentMaxBytes();
+    if (attachment.content.length > maxBytes) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Attachment is ${attachment.content.length} bytes, over the ${maxBytes} byte limit; use save_attachments instead`
+      );
+    }
+
+    switch (classifyAttachment(attachment)) {
+      case 'message':
+        return { uri, mimeType: 'text/plain', text: (await parseAttachedMessage(attachment.content)).summary };
+      case 'text':
+        return { uri, mimeType: attachment.contentType, text: extractText(attachment, attachment.content) };
+      default:
+        return { uri, mimeType: attachment.contentType, blob: attachment.content.toString('base64') };
+    }
+  }
+}
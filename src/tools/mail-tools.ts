@@ -1,16 +1,56 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { 
   CallToolRequestSchema,
-  ListToolsRequestSchema 
+  ListToolsRequestSchema,
+  LoggingLevel,
+  SetLevelRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import { MailService, MailConfig } from '../services/mail-service.js';
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { EmailSummary, SendMailResult } from '../services/mail-service.js';
+import { ThreadNode, buildThreads } from '../services/thread-service.js';
+import { MailRule, describeAction, resolveRulesFile } from '../services/rules-service.js';
+import { mergeSearchCriteria, parseSearchQuery } from '../services/search-query.js';
+import { SyncResult } from '../services/mail-index.js';
+import { Subscription, UnsubscribeResult } from '../services/unsubscribe-service.js';
+import { MailboxStats, SenderStat } from '../services/mailbox-stats.js';
+import { DuplicateCopy, DuplicateGroup } from '../services/duplicate-finder.js';
+import { MailboxEvent, MailboxWatcher } from '../services/mailbox-watcher.js';
+import { JournalOperation, isUndoable } from '../services/operation-journal.js';
+import { MailError, MailErrorCode, errorCode } from '../services/mail-errors.js';
+import { MailPrompts } from './mail-prompts.js';
+import {
+  TOOL_INPUT_SCHEMAS,
+  ToolInput,
+  ToolName,
+  ValidationError,
+  isToolName,
+  toolInputSchema,
+  validationErrors,
+} from './input-schemas.js';
+import {
+  TOOL_OUTPUT_SCHEMAS,
+  attachmentData,
+  detailsData,
+  duplicateCopyData,
+  mailboxStatsData,
+  operationData,
+  sendResultData,
+  subscriptionData,
+  summaryData,
+  threadData,
+} from './output-schemas.js';
+import { AccountConfig, AccountManager } from '../services/account-manager.js';
+import { classifyAttachment, extractText, parseAttachedMessage, truncateUtf8 } from '../services/attachment-extractor.js';
 
-// Strong typing for send_mail parameters - single recipient only
+// Strong typing for send_mail parameters - recipients are normalized lists
 interface SendMailParams {
-  to: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
   subject: string;
   text?: string;
   html?: string;
+  saveToSent?: boolean;
   attachments?: Array<{
     filename: string;
     content: string | Buffer;
@@ -18,63 +58,122 @@ interface SendMailParams {
   }>;
 }
 
-interface ValidationError {
-  field: string;
-  message: string;
-  receivedType: string;
-  receivedValue: any;
-}
+// Owner used for watch_mailbox and WATCH_MAILBOXES
+const WATCH_OWNER = 'watch';
+
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const DEFAULT_MAX_RECIPIENTS = 50;
+const DEFAULT_ATTACHMENT_MAX_BYTES = 2 * 1024 * 1024;
+
+// Pragmatic RFC 5322 addr-spec check: local@domain with a dotted domain
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>()[\],;:"]+@[^\s@<>()[\],;:"]+\.[^\s@<>()[\],;:"]+$/;
 
 export class MailTools {
-  private mailService: MailService;
+  private accounts: AccountManager;
+  private maxRecipients = parseInt(process.env.MAIL_MAX_RECIPIENTS || '') || DEFAULT_MAX_RECIPIENTS;
+  private attachmentMaxBytes = parseInt(process.env.MAIL_ATTACHMENT_MAX_BYTES || '') || DEFAULT_ATTACHMENT_MAX_BYTES;
+  private server?: Server;
+  // Keyed by "<account>:<mailbox>"; owners are watch_mailbox and resource subscriptions
+  private watchers = new Map<string, { watcher: MailboxWatcher; owners: Set<string> }>();
+  private mailboxListeners: Array<(account: string, mailbox: string, event: MailboxEvent) => void> = [];
+  private logLevel: LoggingLevel = 'info';
+
+  /**
+   * Normalize a recipient field into formatted addresses. Accepts a
+   * comma-separated string ("Name <a@b.com>, c@d.com"), an array of such
+   * strings, or an array serialized as a JSON string (common MCP issue).
+   * Addresses already in `seen` are dropped so to/cc/bcc never overlap.
+   */
+  private parseRecipients(
+    field: string,
+    value: any,
+    seen: Set<string>,
+    errors: ValidationError[]
+  ): string[] {
+    let entries: any[] = Array.isArray(value) ? value : [value];
+
+    if (typeof value === 'string' && value.trim().startsWith('[') && value.trim().endsWith(']')) {
+      try {
+        const parsed = JSON.parse(value);
+        if (Array.isArray(parsed)) entries = parsed;
+      } catch {
+        // Not JSON; fall through and parse it as an address list
+      }
+    }
+
+    const recipients: string[] = [];
+    for (const entry of entries) {
+      if (typeof entry !== 'string') {
+        errors.push({
+          field,
+          message: 'Each recipient must be a string',
+          receivedType: typeof entry,
+          receivedValue: entry
+        });
+        continue;
+      }
+
+      for (const parsed of addressparser(entry, { flatten: true })) {
+        const address = parsed.address?.trim();
+        if (!address || !EMAIL_ADDRESS_PATTERN.test(address)) {
+          errors.push({
+            field,
+            message: `Invalid email address "${parsed.address || parsed.name || entry}"`,
+            receivedType: 'string',
+            receivedValue: entry
+          });
+          continue;
+        }
+
+        const key = address.toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        recipients.push(parsed.name ? `"${parsed.name.replace(/["\\]/g, '\\$&')}" <${address}>` : address);
+      }
+    }
+
+    return recipients;
+  }
 
-  private validateSendMailParams(args: any): { isValid: boolean; errors: ValidationError[]; params?: SendMailParams } {
+  private validateSendMailParams(args: ToolInput<'send_mail'>): { isValid: boolean; errors: ValidationError[]; params?: SendMailParams } {
     const errors: ValidationError[] = [];
+    const seen = new Set<string>();
     
     // Check required 'to' field
-    if (!args.to || typeof args.to !== 'string') {
-      errors.push({
-        field: 'to',
-        message: 'Recipient email address is required and must be a string',
-        receivedType: typeof args.to,
-        receivedValue: args.to
-      });
-    } else if (args.to.trim() === '') {
-      errors.push({
-        field: 'to',
-        message: 'Recipient email address cannot be empty',
-        receivedType: 'string',
-        receivedValue: args.to
-      });
-    }
-    
-    // Reject array formats explicitly
-    if (Array.isArray(args.to)) {
+    const hasTo = Array.isArray(args.to)
+      ? args.to.length > 0
+      : typeof args.to === 'string' && args.to.trim() !== '';
+    if (!hasTo) {
       errors.push({
         field: 'to',
-        message: 'Multiple recipients not supported. Use single email address only.',
-        receivedType: 'array',
+        message: 'At least one recipient email address is required (string or array of strings)',
+        receivedType: Array.isArray(args.to) ? 'array' : typeof args.to,
         receivedValue: args.to
       });
     }
-    
-    // Check for serialized array strings (common MCP issue)
-    if (typeof args.to === 'string' && args.to.startsWith('[') && args.to.endsWith(']')) {
+
+    const to = hasTo ? this.parseRecipients('to', args.to, seen, errors) : [];
+    const cc = args.cc ? this.parseRecipients('cc', args.cc, seen, errors) : [];
+    const bcc = args.bcc ? this.parseRecipients('bcc', args.bcc, seen, errors) : [];
+
+    if (hasTo && to.length === 0 && !errors.some(error => error.field === 'to')) {
       errors.push({
         field: 'to',
-        message: 'Array format detected but not supported. Please send to one recipient at a time.',
-        receivedType: 'string (array-like)',
+        message: 'No valid recipient email addresses found',
+        receivedType: typeof args.to,
         receivedValue: args.to
       });
     }
-    
-    // Check required subject field
-    if (!args.subject || typeof args.subject !== 'string') {
+
+    const total = to.length + cc.length + bcc.length;
+    if (total > this.maxRecipients) {
       errors.push({
-        field: 'subject',
-        message: 'Subject is required and must be a string',
-        receivedType: typeof args.subject,
-        receivedValue: args.subject
+        field: 'recipients',
+        message: `Too many recipients: ${total} (maximum is ${this.maxRecipients})`,
+        receivedType: 'number',
+        receivedValue: total
       });
     }
     
@@ -95,376 +194,1570 @@ export class MailTools {
     return { 
       isValid: true, 
       errors: [],
-      params: args as SendMailParams 
+      params: {
+        subject: args.subject,
+        text: args.text,
+        html: args.html,
+        attachments: args.attachments,
+        saveToSent: args.saveToSent,
+        to,
+        cc: cc.length > 0 ? cc : undefined,
+        bcc: bcc.length > 0 ? bcc : undefined,
+      } as SendMailParams
     };
   }
 
-  constructor() {
-    this.validateEnvironment();
-    
-    const config: MailConfig = {
-      smtp: {
-        host: process.env.SMTP_HOST!,
-        port: parseInt(process.env.SMTP_PORT || '587'),
-        secure: process.env.SMTP_SECURE === 'true',
-        auth: {
-          user: process.env.SMTP_USER!,
-          pass: process.env.SMTP_PASS!,
-        },
-      },
-      imap: {
-        host: process.env.IMAP_HOST!,
-        port: parseInt(process.env.IMAP_PORT || '993'),
-        tls: process.env.IMAP_SECURE !== 'false',
-        user: process.env.IMAP_USER!,
-        password: process.env.IMAP_PASS!,
-      },
-    };
-
-    this.mailService = new MailService(config);
+  // Accounts come from loadAccountConfigs, which reports configuration errors at startup
+  constructor(options: { envFile?: string; accounts: AccountConfig[]; defaultAccount: string }) {
+    this.accounts = new AccountManager(
+      options.accounts,
+      options.defaultAccount,
+      resolveRulesFile(options.envFile),
+      process.env.MAIL_DATA_DIR || './data'
+    );
   }
 
-  private validateEnvironment(): void {
-    const required = [
-      'SMTP_HOST',
-      'SMTP_USER',
-      'SMTP_PASS',
-      'IMAP_HOST',
-      'IMAP_USER',
-      'IMAP_PASS',
-    ];
+  async registerTools(server: Server): Promise<void> {
+    this.server = server;
 
-    const missing = required.filter(key => !process.env[key]);
-    
-    if (missing.length > 0) {
-      console.error(`Missing required environment variables: ${missing.join(', ')}`);
-      console.error('\nPlease create a .env file with:');
-      console.error('SMTP_HOST=smtp.example.com');
-      console.error('SMTP_PORT=587');
-      console.error('SMTP_SECURE=true');
-      console.error('SMTP_USER=your@email.com');
-      console.error('SMTP_PASS=your_password');
-      console.error('IMAP_HOST=imap.example.com');
-      console.error('IMAP_PORT=993');
-      console.error('IMAP_SECURE=true');
-      console.error('IMAP_USER=your@email.com');
-      console.error('IMAP_PASS=your_password');
-      process.exit(1);
-    }
-  }
+    // Watcher notifications are sent as log messages at or above this level
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevel = request.params.level;
+      return {};
+    });
+
+    // Prompts embed mail fetched through the same accounts as the tools
+    await new MailPrompts(this).registerPrompts(server);
 
-  async registerTools(server: Server): Promise<void> {
     // Register tool list handler
     server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+      tools: this.withSchemas([
+        {
+          name: 'list_accounts',
+          description: 'List the configured mail accounts and which one is the default',
+        },
         {
           name: 'list_mailboxes',
           description: 'List all available mailboxes/folders',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
         },
         {
           name: 'create_mailbox',
           description: 'Create a new mailbox/folder',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              name: { type: 'string', description: 'Mailbox name' },
-            },
-            required: ['name'],
-          },
         },
         {
           name: 'search_emails',
-          description: 'Search emails with various criteria',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              from: { type: 'string' },
-              to: { type: 'string' },
-              subject: { type: 'string' },
-              body: { type: 'string' },
-              unreadOnly: { type: 'boolean' },
-              sinceDays: { type: 'number' },
-              beforeDays: { type: 'number' },
-              hasAttachments: { type: 'boolean' },
-              limit: { type: 'number', default: 50 },
-            },
-          },
+          description: 'Search emails with various criteria. All given criteria must match; use `or` and `not` for alternatives and exclusions',
         },
         {
           name: 'get_email',
-          description: 'Get detailed information about a specific email',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              uid: { type: 'number' },
-            },
-            required: ['uid'],
-          },
+          description: 'Get detailed information about a specific email. Reading does not mark it as read unless markAsRead is set',
+        },
+        {
+          name: 'get_attachment',
+          description: 'Read an attachment by index (as listed by get_email) or Content-ID. Text formats (txt, csv, json, ics) are returned as text, images as images, attached emails (.eml) are parsed, other files as base64',
+        },
+        {
+          name: 'save_attachments',
+          description: 'Save the attachments of an email to the download directory (ATTACH_SAVE_DIR)',
+        },
+        {
+          name: 'get_thread',
+          description: 'Get the whole conversation an email belongs to, across INBOX and Sent, as a chronological reply tree',
         },
         {
           name: 'move_emails',
           description: 'Move emails to another mailbox',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              uids: {
-                type: 'array',
-                items: { type: 'number' },
-              },
-              destination: { type: 'string' },
-            },
-            required: ['uids', 'destination'],
-          },
         },
         {
           name: 'delete_emails',
-          description: 'Delete emails permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              uids: {
-                type: 'array',
-                items: { type: 'number' },
-              },
-              preview: { type: 'boolean', default: true },
-            },
-            required: ['uids'],
-          },
+          description: 'Delete emails by moving them to Trash (can be undone); emails already in Trash, or with permanent: true, are removed for good',
+        },
+        {
+          name: 'empty_trash',
+          description: 'Permanently delete emails in the Trash mailbox, optionally only older ones',
         },
         {
           name: 'mark_seen',
           description: 'Mark emails as read or unread',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              uids: {
-                type: 'array',
-                items: { type: 'number' },
-              },
-              seen: { type: 'boolean' },
-            },
-            required: ['uids', 'seen'],
-          },
         },
         {
           name: 'add_flags',
           description: 'Add flags to emails',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              uids: {
-                type: 'array',
-                items: { type: 'number' },
-              },
-              flags: {
-                type: 'array',
-                items: { type: 'string' },
-              },
-            },
-            required: ['uids', 'flags'],
-          },
         },
         {
           name: 'remove_flags',
           description: 'Remove flags from emails',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              uids: {
-                type: 'array',
-                items: { type: 'number' },
-              },
-              flags: {
-                type: 'array',
-                items: { type: 'string' },
-              },
-            },
-            required: ['uids', 'flags'],
-          },
+        },
+        {
+          name: 'list_recent_operations',
+          description: 'List recent move, delete and flag operations from the undo journal, newest first',
+        },
+        {
+          name: 'undo_operation',
+          description: 'Reverse a journaled operation: moves emails back, restores previous flags, or restores soft-deleted emails from Trash',
         },
         {
           name: 'delete_mailbox',
           description: 'Delete an empty mailbox/folder (only works when mailbox is empty)',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              name: { type: 'string', description: 'Mailbox name to delete' },
-            },
-            required: ['name'],
-          },
         },
         {
           name: 'list_all_emails',
-          description: 'List all emails with pagination',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              mailbox: { type: 'string', default: 'INBOX' },
-              page: { type: 'number', default: 1, description: 'Page number (1-based)' },
-              page_size: { type: 'number', default: 50, description: 'Number of emails per page' },
-            },
-          },
+          description: 'List all emails with pagination, newest first. Pass the returned cursor to get the next page without results shifting when new mail arrives',
+        },
+        {
+          name: 'sync_mailbox',
+          description: 'Create or update the local index of a mailbox (envelopes, flags and optionally text bodies) so searches and listings can be answered locally. Uses CONDSTORE for flag changes when available; QRESYNC is not supported, so each sync lists all UIDs to detect deletions',
+        },
+        {
+          name: 'index_status',
+          description: 'Show which mailboxes are indexed locally, how many messages they hold and when they were last synced',
+        },
+        {
+          name: 'watch_mailbox',
+          description: 'Watch a mailbox with IMAP IDLE and send a notification (log message) when mail arrives, flags change or messages are removed',
+        },
+        {
+          name: 'unwatch_mailbox',
+          description: 'Stop watching a mailbox',
         },
         {
           name: 'send_mail',
-          description: 'Send an email to a single recipient',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              to: { 
-                type: 'string',
-                description: 'Single recipient email address'
-              },
-              subject: { type: 'string' },
-              text: { type: 'string' },
-              html: { type: 'string' },
-              attachments: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    filename: { type: 'string' },
-                    content: { type: 'string' },
-                    contentType: { type: 'string' },
-                  },
-                  required: ['filename', 'content'],
-                },
-              },
-            },
-            required: ['to', 'subject'],
-          },
+          description: 'Send an email to one or more recipients',
         },
-      ],
+        {
+          name: 'reply_to_email',
+          description: 'Reply (or reply-all) to an email, keeping it in the same conversation thread',
+        },
+        {
+          name: 'forward_email',
+          description: 'Forward an email, including its attachments, to one or more recipients',
+        },
+        {
+          name: 'create_draft',
+          description: 'Save a new email to the Drafts folder for a human to review before sending',
+        },
+        {
+          name: 'update_draft',
+          description: 'Edit a draft; omitted fields keep their current value. The draft gets a new UID',
+        },
+        {
+          name: 'list_drafts',
+          description: 'List emails in the Drafts folder',
+        },
+        {
+          name: 'send_draft',
+          description: 'Send a draft and remove it from the Drafts folder',
+        },
+        {
+          name: 'list_rules',
+          description: 'List the filtering rules loaded from the rules file',
+        },
+        {
+          name: 'test_rule',
+          description: 'Show which emails a rule would match without changing anything. Pass the name of a configured rule or an inline rule definition',
+        },
+        {
+          name: 'apply_rules',
+          description: 'Apply filtering rules to matching emails (dry run by default)',
+        },
+        {
+          name: 'find_subscriptions',
+          description: 'Find mailing lists and newsletters in a mailbox, grouped by List-Id or sender, with their message counts and List-Unsubscribe options',
+        },
+        {
+          name: 'unsubscribe',
+          description: 'Unsubscribe from a list found by find_subscriptions using RFC 8058 one-click or its mailto: address (preview by default), optionally moving or deleting its existing emails afterwards',
+        },
+        {
+          name: 'mailbox_stats',
+          description: 'Report message and unread counts, total size, top senders and domains by count and bytes, an age histogram, the largest emails and attachment totals for one or more mailboxes, without downloading bodies. Useful for proposing cleanups',
+        },
+        {
+          name: 'find_duplicates',
+          description: 'Find duplicate emails within and across mailboxes by Message-ID, or by a hash of normalized headers and body size when there is none',
+        },
+        {
+          name: 'dedupe',
+          description: 'Keep one copy of each duplicate email (the oldest, or the one in a preferred mailbox) and move the others to Trash (preview by default)',
+        },
+      ]),
     }));
 
     // Register tool call handler
     server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+      const { name, arguments: args = {} } = request.params;
+      if (!isToolName(name)) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      const parsed = TOOL_INPUT_SCHEMAS[name].safeParse(args);
+      if (!parsed.success) {
+        return this.validationFailure(name, validationErrors(parsed.error, args));
+      }
+      const input = parsed.data;
 
       switch (name) {
+        case 'list_accounts':
+          return await this.listAccounts();
+        
         case 'list_mailboxes':
-          return await this.listMailboxes();
+          return await this.listMailboxes(input as ToolInput<'list_mailboxes'>);
         
         case 'create_mailbox':
-          return await this.createMailbox(args as any);
+          return await this.createMailbox(input as ToolInput<'create_mailbox'>);
         
         case 'search_emails':
-          return await this.searchEmails(args as any);
+          return await this.searchEmails(input as ToolInput<'search_emails'>);
         
         case 'get_email':
-          return await this.getEmail(args as any);
+          return await this.getEmail(input as ToolInput<'get_email'>);
+        
+        case 'get_attachment':
+          return await this.getAttachment(input as ToolInput<'get_attachment'>);
+        
+        case 'save_attachments':
+          return await this.saveAttachments(input as ToolInput<'save_attachments'>);
+        
+        case 'get_thread':
+          return await this.getThread(input as ToolInput<'get_thread'>);
         
         case 'move_emails':
-          return await this.moveEmails(args as any);
+          return await this.moveEmails(input as ToolInput<'move_emails'>);
         
         case 'delete_emails':
-          return await this.deleteEmails(args as any);
+          return await this.deleteEmails(input as ToolInput<'delete_emails'>);
+        
+        case 'empty_trash':
+          return await this.emptyTrash(input as ToolInput<'empty_trash'>);
         
         case 'mark_seen':
-          return await this.markSeen(args as any);
+          return await this.markSeen(input as ToolInput<'mark_seen'>);
         
         case 'add_flags':
-          return await this.addFlags(args as any);
+          return await this.addFlags(input as ToolInput<'add_flags'>);
         
         case 'remove_flags':
-          return await this.removeFlags(args as any);
+          return await this.removeFlags(input as ToolInput<'remove_flags'>);
+        
+        case 'list_recent_operations':
+          return await this.listRecentOperations(input as ToolInput<'list_recent_operations'>);
+        
+        case 'undo_operation':
+          return await this.undoOperation(input as ToolInput<'undo_operation'>);
         
         case 'delete_mailbox':
-          return await this.deleteMailbox(args as any);
+          return await this.deleteMailbox(input as ToolInput<'delete_mailbox'>);
         
         case 'list_all_emails':
-          return await this.listAllEmails(args as any);
+          return await this.listAllEmails(input as ToolInput<'list_all_emails'>);
+        
+        case 'sync_mailbox':
+          return await this.syncMailbox(input as ToolInput<'sync_mailbox'>);
+        
+        case 'index_status':
+          return await this.indexStatus(input as ToolInput<'index_status'>);
+        
+        case 'watch_mailbox':
+          return await this.watchMailbox(input as ToolInput<'watch_mailbox'>);
+        
+        case 'unwatch_mailbox':
+          return await this.unwatchMailbox(input as ToolInput<'unwatch_mailbox'>);
         
         case 'send_mail':
-          return await this.sendMail(args as any);
+          return await this.sendMail(input as ToolInput<'send_mail'>);
+        
+        case 'reply_to_email':
+          return await this.replyToEmail(input as ToolInput<'reply_to_email'>);
+        
+        case 'forward_email':
+          return await this.forwardEmail(input as ToolInput<'forward_email'>);
+        
+        case 'create_draft':
+          return await this.createDraft(input as ToolInput<'create_draft'>);
+        
+        case 'update_draft':
+          return await this.updateDraft(input as ToolInput<'update_draft'>);
+        
+        case 'list_drafts':
+          return await this.listDrafts(input as ToolInput<'list_drafts'>);
+        
+        case 'send_draft':
+          return await this.sendDraft(input as ToolInput<'send_draft'>);
+        
+        case 'list_rules':
+          return await this.listRules(input as ToolInput<'list_rules'>);
+        
+        case 'test_rule':
+          return await this.testRule(input as ToolInput<'test_rule'>);
         
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+        case 'apply_rules':
+          return await this.applyRules(input as ToolInput<'apply_rules'>);
+        
+        case 'find_subscriptions':
+          return await this.findSubscriptions(input as ToolInput<'find_subscriptions'>);
+        
+        case 'unsubscribe':
+          return await this.unsubscribe(input as ToolInput<'unsubscribe'>);
+        
+        case 'mailbox_stats':
+          return await this.mailboxStats(input as ToolInput<'mailbox_stats'>);
+        
+        case 'find_duplicates':
+          return await this.findDuplicates(input as ToolInput<'find_duplicates'>);
+        
+        case 'dedupe':
+          return await this.dedupe(input as ToolInput<'dedupe'>);
+      }
+    });
+  }
+
+  // Input schemas are generated from zod; the account property lists the configured accounts
+  private withSchemas(tools: Array<{ name: ToolName; description: string }>) {
+    const accounts = this.accounts.list().map(account => account.name);
+    return tools.map(tool => {
+      const inputSchema = toolInputSchema(tool.name);
+      if (inputSchema.properties.account) {
+        inputSchema.properties.account = {
+          type: 'string',
+          enum: accounts,
+          description: `Mail account to use (default: ${this.accounts.getDefaultName()})`,
+        };
+      }
+      return { ...tool, inputSchema, outputSchema: TOOL_OUTPUT_SCHEMAS[tool.name] };
+    });
+  }
+
+  // Failed calls carry no structuredContent; the code is in _meta and the text
+  private failure(code: MailErrorCode, text: string) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `[${code}] ${text}`,
+        },
+      ],
+      isError: true,
+      _meta: { errorCode: code },
+    };
+  }
+
+  // Field-level report of arguments that failed validation
+  private validationFailure(tool: string, errors: ValidationError[]) {
+    const messages = errors.map(error =>
+      `❌ Field "${error.field}": ${error.message}\n   Received: ${error.receivedType} = ${JSON.stringify(error.receivedValue)}`
+    ).join('\n\n');
+    const hint = tool === 'send_mail'
+      ? `\n\n💡 Expected format:\n- to: "email@domain.com", "Name <email@domain.com>, other@domain.com" or ["a@domain.com", "b@domain.com"] (required)\n- cc / bcc: same formats as to (optional)\n- subject: "subject text" (required)\n- text: "message content" (optional)\n- html: "<html>content</html>" (optional)\n- attachments: array (optional)\n\n⚠️ Note: At most ${this.maxRecipients} recipients in total; duplicates across to/cc/bcc are removed.`
+      : '';
+
+    return {
+      ...this.failure('INVALID_ARGUMENT', `❌ ${tool.toUpperCase()} VALIDATION ERRORS:\n\n${messages}${hint}`),
+      _meta: { errorCode: 'INVALID_ARGUMENT', validationErrors: errors },
+    };
+  }
+
+  private errorResult(action: string, error: unknown) {
+    return this.failure(errorCode(error), `Error ${action}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  /**
+   * Start watchers for the mailboxes listed in WATCH_MAILBOXES. Call once
+   * the transport is connected so notifications have somewhere to go.
+   */
+  async startWatchers(): Promise<void> {
+    for (const account of this.accounts.list()) {
+      for (const mailbox of account.config.watchMailboxes || []) {
+        try {
+          await this.acquireWatcher(account.name, mailbox, WATCH_OWNER);
+        } catch (error) {
+          console.error(`[WARNING] Could not watch ${mailbox} for "${account.name}":`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+  }
+
+  getAccounts(): AccountManager {
+    return this.accounts;
+  }
+
+  getAttachmentMaxBytes(): number {
+    return this.attachmentMaxBytes;
+  }
+
+  onMailboxEvent(listener: (account: string, mailbox: string, event: MailboxEvent) => void): void {
+    this.mailboxListeners.push(listener);
+  }
+
+  /**
+   * Start watching a mailbox on behalf of `owner`, or add `owner` to an
+   * existing watcher. The watcher runs until every owner has released it.
+   */
+  async acquireWatcher(accountName: string, mailbox: string, owner: string): Promise<void> {
+    const key = `${accountName}:${mailbox}`;
+    const existing = this.watchers.get(key);
+    if (existing) {
+      existing.owners.add(owner);
+      return;
+    }
+
+    const account = this.accounts.get(accountName);
+    const watcher = new MailboxWatcher(mailbox, account.config, account.mailService, event =>
+      this.notifyMailboxEvent(account.name, mailbox, event)
+    );
+    this.watchers.set(key, { watcher, owners: new Set([owner]) });
+    try {
+      await watcher.start();
+    } catch (error) {
+      this.watchers.delete(key);
+      throw error;
+    }
+  }
+
+  // Returns false when `owner` was not watching the mailbox
+  releaseWatcher(accountName: string, mailbox: string, owner: string): boolean {
+    const key = `${accountName}:${mailbox}`;
+    const entry = this.watchers.get(key);
+    if (!entry || !entry.owners.delete(owner)) return false;
+
+    if (entry.owners.size === 0) {
+      this.watchers.delete(key);
+      entry.watcher.stop();
+    }
+    return true;
+  }
+
+  private describeMailboxEvent(mailbox: string, event: MailboxEvent): string {
+    switch (event.type) {
+      case 'new':
+        return `${event.emails.length} new email(s) in ${mailbox}:\n` + event.emails
+          .map(email => `UID ${email.uid}: ${email.subject} (from ${email.from})`)
+          .join('\n');
+      case 'flags':
+        return `Flags of UID ${event.uid} in ${mailbox} changed to ${event.flags.join(', ') || '(none)'}`;
+      case 'expunge':
+        return `UID ${event.uids.join(', ')} removed from ${mailbox}`;
+      case 'status':
+        return `Watcher for ${mailbox} is ${event.status}${event.error ? ` (${event.error})` : ''}`;
+    }
+  }
+
+  private notifyMailboxEvent(account: string, mailbox: string, event: MailboxEvent): void {
+    this.mailboxListeners.forEach(listener => listener(account, mailbox, event));
+
+    const level: LoggingLevel = event.type === 'status'
+      ? (event.status === 'reconnecting' ? 'warning' : 'info')
+      : 'notice';
+    if (!this.server || LOGGING_LEVELS.indexOf(level) < LOGGING_LEVELS.indexOf(this.logLevel)) return;
+
+    this.server.sendLoggingMessage({
+      level,
+      logger: 'mail-watcher',
+      data: {
+        account,
+        mailbox,
+        event: event.type,
+        message: this.describeMailboxEvent(mailbox, event),
+        ...(event.type === 'new' && {
+          emails: event.emails.map(email => ({
+            uid: email.uid,
+            from: email.from,
+            subject: email.subject,
+            date: email.date.toISOString(),
+          })),
+        }),
+        ...(event.type === 'flags' && { uid: event.uid, flags: event.flags }),
+        ...(event.type === 'expunge' && { uids: event.uids }),
+      },
+    }).catch(error => console.error('Failed to send watcher notification:', error));
+  }
+
+  private describeWatches(): string {
+    const active = [...this.watchers.entries()].map(([key, { watcher }]) => `${key} (${watcher.getState()})`);
+    return active.length > 0 ? `Currently watching: ${active.join(', ')}` : 'No mailboxes are being watched';
+  }
+
+  private watchStatus(account: string, mailbox: string) {
+    const entry = this.watchers.get(`${account}:${mailbox}`);
+    return {
+      account,
+      mailbox,
+      watching: !!entry?.owners.has(WATCH_OWNER),
+      subscriptions: entry ? [...entry.owners].filter(owner => owner !== WATCH_OWNER).length : 0,
+      watches: [...this.watchers.entries()].map(([key, { watcher }]) => {
+        const separator = key.indexOf(':');
+        return { account: key.slice(0, separator), mailbox: key.slice(separator + 1), state: watcher.getState() };
+      }),
+    };
+  }
+
+  private async watchMailbox(args: ToolInput<'watch_mailbox'>) {
+    try {
+      const { name } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      await this.acquireWatcher(name, mailbox, WATCH_OWNER);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Watching "${mailbox}" for account "${name}". New mail, flag changes and removals are sent as log notifications (logger "mail-watcher").\n${this.describeWatches()}`,
+          },
+        ],
+        structuredContent: this.watchStatus(name, mailbox),
+      };
+    } catch (error) {
+      return this.errorResult('watching mailbox', error);
+    }
+  }
+
+  private async unwatchMailbox(args: ToolInput<'unwatch_mailbox'>) {
+    try {
+      const { name } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      if (!this.releaseWatcher(name, mailbox, WATCH_OWNER)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `"${mailbox}" is not being watched for account "${name}".\n${this.describeWatches()}`,
+            },
+          ],
+          structuredContent: this.watchStatus(name, mailbox),
+        };
+      }
+
+      const remaining = this.watchers.get(`${name}:${mailbox}`);
+      const note = remaining
+        ? ` The connection stays open for ${remaining.owners.size} resource subscription(s).`
+        : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Stopped watching "${mailbox}" for account "${name}".${note}\n${this.describeWatches()}`,
+          },
+        ],
+        structuredContent: this.watchStatus(name, mailbox),
+      };
+    } catch (error) {
+      return this.errorResult('unwatching mailbox', error);
+    }
+  }
+
+  private async listAccounts() {
+    try {
+      const defaultName = this.accounts.getDefaultName();
+      const summary = this.accounts.list().map(account => 
+        `Account: ${account.name}${account.name === defaultName ? ' (default)' : ''}\n` +
+        `SMTP: ${account.config.smtp.auth.user}@${account.config.smtp.host}:${account.config.smtp.port}\n` +
+        `IMAP: ${account.config.imap.user}@${account.config.imap.host}:${account.config.imap.port}\n`
+      ).join('\n---\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${this.accounts.list().length} accounts:\n\n${summary}`,
+          },
+        ],
+        structuredContent: {
+          defaultAccount: defaultName,
+          accounts: this.accounts.list().map(account => ({
+            name: account.name,
+            isDefault: account.name === defaultName,
+            smtp: { user: account.config.smtp.auth.user, host: account.config.smtp.host, port: account.config.smtp.port },
+            imap: { user: account.config.imap.user, host: account.config.imap.host, port: account.config.imap.port },
+          })),
+        },
+      };
+    } catch (error) {
+      return this.errorResult('listing accounts', error);
+    }
+  }
+
+  private async listMailboxes(args: ToolInput<'list_mailboxes'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailboxes = await mailService.listMailboxes();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${mailboxes.length} mailboxes:\n${mailboxes.join('\n')}`,
+          },
+        ],
+        structuredContent: { mailboxes },
+      };
+    } catch (error) {
+      return this.errorResult('listing mailboxes', error);
+    }
+  }
+
+  private async createMailbox(args: ToolInput<'create_mailbox'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      await mailService.createMailbox(args.name);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Mailbox "${args.name}" created successfully`,
+          },
+        ],
+        structuredContent: { mailbox: args.name },
+      };
+    } catch (error) {
+      return this.errorResult('creating mailbox', error);
+    }
+  }
+
+  private async searchEmails(args: ToolInput<'search_emails'>) {
+    try {
+      const { mailService, mailIndex } = this.accounts.get(args.account);
+      const limit = args.limit || 50;
+      const { query, source, ...structured } = args;
+      const criteria = query ? mergeSearchCriteria([structured, parseSearchQuery(query)]) : structured;
+      const indexed = await mailIndex.search({ ...criteria, limit }, source);
+      const emails = indexed ? indexed.emails : await mailService.searchEmails({ ...criteria, limit });
+      const data = {
+        emails: emails.map(summaryData),
+        limitReached: emails.length >= limit,
+        source: indexed ? 'index' : 'server',
+        syncedAt: indexed?.syncedAt,
+      };
+      
+      if (emails.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No emails found matching the criteria',
+            },
+          ],
+          structuredContent: data,
+        };
+      }
+
+      const heading = (emails.length >= limit
+        ? `Showing the ${emails.length} most recent matching emails (limit reached; narrow the search or raise limit)`
+        : `Found ${emails.length} emails (newest first)`)
+        + (indexed ? ` from the local index synced ${indexed.syncedAt}` : '');
+
+      if (args.groupByThread) {
+        const threads = buildThreads(emails);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${heading} in ${threads.length} threads:\n\n${this.formatThreadTree(threads)}`,
+            },
+          ],
+          structuredContent: { ...data, threads: threadData(threads) },
+        };
+      }
+      
+      const summary = emails.map(email => 
+        `UID: ${email.uid}\n` +
+        `From: ${email.from}\n` +
+        `Subject: ${email.subject}\n` +
+        `Date: ${email.date.toISOString()}\n` +
+        `Flags: ${email.flags.join(', ')}\n` +
+        `Attachments: ${email.hasAttachments ? 'Yes' : 'No'}\n`
+      ).join('\n---\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${heading}:\n\n${summary}`,
+          },
+        ],
+        structuredContent: data,
+      };
+    } catch (error) {
+      return this.errorResult('searching emails', error);
+    }
+  }
+
+  private async getEmail(args: ToolInput<'get_email'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const email = await mailService.getEmailDetails(mailbox, args.uid, {
+        markAsRead: args.markAsRead,
+      });
+      
+      if (!email) {
+        return this.failure('UID_NOT_FOUND', `Email with UID ${args.uid} not found in "${mailbox}"`);
+      }
+
+      const details = 
+        `UID: ${email.uid}\n` +
+        `From: ${email.from}\n` +
+        `To: ${email.to}\n` +
+        `Subject: ${email.subject}\n` +
+        `Date: ${email.date.toISOString()}\n` +
+        `Flags: ${email.flags.join(', ')}\n` +
+        `Attachments: ${email.attachments.length}\n` +
+        email.attachments.map((att, index) => 
+          `  [${index}] ${att.filename} (${att.contentType}, ${att.size} bytes)${att.contentId ? ` cid:${att.contentId}` : ''}\n`
+        ).join('') +
+        `\nText Content:\n${email.textContent || '(No text content)'}\n`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: details,
+          },
+        ],
+        structuredContent: { email: detailsData(email), markedAsRead: !!args.markAsRead },
+      };
+    } catch (error) {
+      return this.errorResult('getting email', error);
+    }
+  }
+
+  private async getAttachment(args: ToolInput<'get_attachment'>) {
+    try {
+      const { name: account, mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const maxBytes = Math.min(args.maxBytes || this.attachmentMaxBytes, this.attachmentMaxBytes);
+
+      const { attachment, index } = await mailService.getAttachment(mailbox, args.uid, {
+        index: args.index,
+        contentId: args.contentId,
+        nestedPath: args.nestedPath,
+      });
+
+      const header = `Attachment [${index}] ${attachment.filename} (${attachment.contentType}, ${attachment.content.length} bytes)`;
+      const kind = classifyAttachment(attachment);
+      const meta = {
+        index,
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+        kind,
+      };
+
+      if (kind === 'message') {
+        const message = await parseAttachedMessage(attachment.content);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${header}\n\n${message.summary}` +
+                (message.attachments.length > 0
+                  ? `\n\nUse nestedPath: [${[...(args.nestedPath || []), '<n>'].join(', ')}] to read an attachment of this message.`
+                  : ''),
+            },
+          ],
+          structuredContent: {
+            ...meta,
+            text: message.summary,
+            attachments: message.attachments.map(attachmentData),
+          },
+        };
+      }
+
+      if (kind === 'text') {
+        let text = extractText(attachment, attachment.content);
+        const truncated = Buffer.byteLength(text) > maxBytes;
+        if (truncated) {
+          text = truncateUtf8(text, maxBytes);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${header}${truncated ? ` — truncated to ${maxBytes} bytes` : ''}\n\n${text}`,
+            },
+          ],
+          structuredContent: { ...meta, text, truncated },
+        };
+      }
+
+      if (attachment.content.length > maxBytes) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${header}\n\nAttachment exceeds the ${maxBytes} byte limit. Use save_attachments to write it to disk instead.`,
+            },
+          ],
+          structuredContent: { ...meta, tooLarge: true },
+        };
+      }
+
+      const data = attachment.content.toString('base64');
+
+      if (kind === 'image') {
+        return {
+          content: [
+            { type: 'text', text: header },
+            { type: 'image', data, mimeType: attachment.contentType },
+          ],
+          structuredContent: meta,
+        };
+      }
+
+      // Outer selector followed by the indexes inside attached messages
+      const path = args.nestedPath?.length
+        ? [args.contentId ? encodeURIComponent(args.contentId) : args.index, ...args.nestedPath].join('/')
+        : String(index);
+      const uri = `mail://${encodeURIComponent(account)}/${encodeURIComponent(mailbox)}/${args.uid}/attachments/${path}`;
+      return {
+        content: [
+          { type: 'text', text: header },
+          {
+            type: 'resource',
+            resource: {
+              uri,
+              mimeType: attachment.contentType,
+              blob: data,
+            },
+          },
+        ],
+        structuredContent: { ...meta, uri },
+      };
+    } catch (error) {
+      return this.errorResult('getting attachment', error);
+    }
+  }
+
+  private async saveAttachments(args: ToolInput<'save_attachments'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const directory = process.env.ATTACH_SAVE_DIR || './attachments';
+      const result = await mailService.saveAttachments(
+        args.mailbox || 'INBOX',
+        args.uid,
+        {
+          directory,
+          subdirectory: args.subdirectory,
+          filenamePattern: args.filenamePattern,
+          contentTypes: args.contentTypes,
+          maxSize: args.maxSize,
+        }
+      );
+
+      if (result.saved.length === 0 && result.skipped.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Email with UID ${args.uid} has no attachments`,
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+
+      const savedList = result.saved.map(file => `- ${file}`).join('\n');
+      const skippedList = result.skipped.map(item => `- ${item.filename}: ${item.reason}`).join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Saved ${result.saved.length} attachments` +
+              (savedList ? `:\n${savedList}` : '') +
+              (skippedList ? `\n\nSkipped ${result.skipped.length}:\n${skippedList}` : ''),
+          },
+        ],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return this.errorResult('saving attachments', error);
+    }
+  }
+
+  private formatThreadTree(nodes: ThreadNode<EmailSummary & { mailbox?: string }>[], depth = 0): string {
+    return nodes.map(node => {
+      const email = node.message;
+      const location = email.mailbox ? `${email.mailbox} ` : '';
+      const line = `${'  '.repeat(depth)}- [${location}UID ${email.uid}] ${email.date.toISOString()} ${email.from} — ${email.subject}`;
+      return node.children.length > 0
+        ? `${line}\n${this.formatThreadTree(node.children, depth + 1)}`
+        : line;
+    }).join('\n');
+  }
+
+  private async getThread(args: ToolInput<'get_thread'>) {
+    try {
+      const { threadService } = this.accounts.get(args.account);
+      const result = await threadService.getThread(
+        args.mailbox || 'INBOX',
+        args.uid,
+        { mailboxes: args.mailboxes }
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Thread with ${result.messageCount} messages (searched: ${result.mailboxes.join(', ')}):\n\n${this.formatThreadTree(result.threads)}` +
+              result.skippedMailboxes.map(skipped => `\n⚠️ Could not search "${skipped.mailbox}": ${skipped.error}`).join(''),
+          },
+        ],
+        structuredContent: {
+          messageCount: result.messageCount,
+          mailboxes: result.mailboxes,
+          skippedMailboxes: result.skippedMailboxes,
+          serverThreading: result.serverThreading,
+          threads: threadData(result.threads),
+        },
+      };
+    } catch (error) {
+      return this.errorResult('getting thread', error);
+    }
+  }
+
+  private async moveEmails(args: ToolInput<'move_emails'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const operationId = await mailService.moveEmails(
+        mailbox,
+        args.uids,
+        args.destination
+      );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Moved ${args.uids.length} emails to "${args.destination}"${this.undoHint(operationId)}`,
+          },
+        ],
+        structuredContent: { mailbox, destination: args.destination, uids: args.uids, operationId },
+      };
+    } catch (error) {
+      return this.errorResult('moving emails', error);
+    }
+  }
+
+  private async deleteEmails(args: ToolInput<'delete_emails'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const trash = args.permanent ? undefined : await mailService.getTrashMailbox();
+      const permanent = !trash || trash === mailbox;
+      const data = { mailbox, uids: args.uids, permanent, trashMailbox: permanent ? undefined : trash };
+
+      if (args.preview !== false) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `PREVIEW: Would ${permanent ? 'permanently delete' : `move to "${trash}"`} ${args.uids.length} emails with UIDs: ${args.uids.join(', ')}\n\nTo confirm deletion, set preview: false`,
+            },
+          ],
+          structuredContent: { ...data, preview: true },
+        };
+      }
+
+      const operationId = await mailService.deleteEmails(mailbox, args.uids, {
+        permanent: args.permanent,
+        trashMailbox: trash,
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: permanent
+              ? `Permanently deleted ${args.uids.length} emails`
+              : `Moved ${args.uids.length} emails to "${trash}"${this.undoHint(operationId)}`,
+          },
+        ],
+        structuredContent: { ...data, preview: false, operationId },
+      };
+    } catch (error) {
+      return this.errorResult('deleting emails', error);
+    }
+  }
+
+  private async emptyTrash(args: ToolInput<'empty_trash'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const preview = args.preview !== false;
+      const result = await mailService.emptyTrash({ olderThanDays: args.olderThanDays, preview });
+      const scope = args.olderThanDays !== undefined ? ` received more than ${args.olderThanDays} days ago` : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: preview
+              ? `PREVIEW: Would permanently delete ${result.uids.length} emails${scope} from "${result.mailbox}"\n\nTo confirm, set preview: false`
+              : `Permanently deleted ${result.uids.length} emails${scope} from "${result.mailbox}"`,
+          },
+        ],
+        structuredContent: { mailbox: result.mailbox, uids: result.uids, preview, olderThanDays: args.olderThanDays },
+      };
+    } catch (error) {
+      return this.errorResult('emptying trash', error);
+    }
+  }
+
+
+  private async markSeen(args: ToolInput<'mark_seen'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const operationId = await mailService.markSeen(
+        mailbox,
+        args.uids,
+        args.seen
+      );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Marked ${args.uids.length} emails as ${args.seen ? 'read' : 'unread'}${this.undoHint(operationId)}`,
+          },
+        ],
+        structuredContent: { mailbox, uids: args.uids, seen: args.seen, operationId },
+      };
+    } catch (error) {
+      return this.errorResult('marking emails', error);
+    }
+  }
+
+  private async addFlags(args: ToolInput<'add_flags'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const operationId = await mailService.addFlags(
+        mailbox,
+        args.uids,
+        args.flags
+      );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Added flags ${args.flags.join(', ')} to ${args.uids.length} emails${this.undoHint(operationId)}`,
+          },
+        ],
+        structuredContent: { mailbox, uids: args.uids, flags: args.flags, operationId },
+      };
+    } catch (error) {
+      return this.errorResult('adding flags', error);
+    }
+  }
+
+  private async removeFlags(args: ToolInput<'remove_flags'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const operationId = await mailService.removeFlags(
+        mailbox,
+        args.uids,
+        args.flags
+      );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Removed flags ${args.flags.join(', ')} from ${args.uids.length} emails${this.undoHint(operationId)}`,
+          },
+        ],
+        structuredContent: { mailbox, uids: args.uids, flags: args.flags, operationId },
+      };
+    } catch (error) {
+      return this.errorResult('removing flags', error);
+    }
+  }
+
+  private undoHint(operationId: string | undefined): string {
+    return operationId ? `\nOperation ID: ${operationId} (reverse with undo_operation)` : '';
+  }
+
+  private describeOperation(operation: JournalOperation): string {
+    const count = `${operation.messages.length} emails`;
+    switch (operation.type) {
+      case 'move':
+        return `moved ${count} from "${operation.mailbox}" to "${operation.destination}"`;
+      case 'delete':
+        return operation.destination
+          ? `deleted ${count} from "${operation.mailbox}" (moved to "${operation.destination}")`
+          : `permanently deleted ${count} from "${operation.mailbox}"`;
+      default:
+        return `${operation.action === 'add' ? 'added' : 'removed'} ${operation.flags?.join(', ')} ` +
+          `${operation.action === 'add' ? 'to' : 'from'} ${count} in "${operation.mailbox}"`;
+    }
+  }
+
+  private async listRecentOperations(args: ToolInput<'list_recent_operations'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const operations = await mailService.listOperations(args.limit ?? 20);
+
+      if (operations.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No recorded operations',
+            },
+          ],
+          structuredContent: { operations: [] },
+        };
+      }
+
+      const lines = operations.map(operation => {
+        const status = operation.undoneAt
+          ? `undone at ${operation.undoneAt}`
+          : isUndoable(operation) ? 'can be undone' : 'cannot be undone';
+        const unrestorable = operation.unrestorable?.length && isUndoable(operation)
+          ? `; ${operation.unrestorable.length} emails without a Message-ID cannot be restored`
+          : '';
+        const subjects = operation.messages.slice(0, 3).map(message => `    - ${message.subject || `UID ${message.uid}`}`);
+        if (operation.messages.length > 3) subjects.push(`    - … and ${operation.messages.length - 3} more`);
+        return [`[${operation.id}] ${operation.timestamp}: ${this.describeOperation(operation)} (${status}${unrestorable})`, ...subjects].join('\n');
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Recent operations (newest first):\n\n${lines.join('\n\n')}`,
+          },
+        ],
+        structuredContent: { operations: operations.map(operationData) },
+      };
+    } catch (error) {
+      return this.errorResult('listing operations', error);
+    }
+  }
+
+  private async undoOperation(args: ToolInput<'undo_operation'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const result = await mailService.undoOperation(args.operationId);
+
+      const target = result.operation.type === 'flags'
+        ? 'flags restored on'
+        : `moved back to "${result.operation.mailbox}":`;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Undid operation ${result.operation.id} (${this.describeOperation(result.operation)}): ` +
+              `${target} ${result.restored} emails` +
+              (result.missing > 0 ? `\n${result.missing} emails could not be found; they may have been moved or deleted since` : ''),
+          },
+        ],
+        structuredContent: {
+          operation: operationData(result.operation),
+          restored: result.restored,
+          missing: result.missing,
+        },
+      };
+    } catch (error) {
+      return this.errorResult('undoing operation', error);
+    }
+  }
+
+  private async deleteMailbox(args: ToolInput<'delete_mailbox'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      // First check if mailbox is empty
+      const emails = await mailService.searchEmails({
+        mailbox: args.name,
+        limit: 1
+      });
+      
+      if (emails.length > 0) {
+        return this.failure('MAILBOX_NOT_EMPTY', `Cannot delete mailbox "${args.name}": mailbox is not empty (contains ${emails.length}+ emails)`);
+      }
+
+      await mailService.deleteMailbox(args.name);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Mailbox "${args.name}" deleted successfully`,
+          },
+        ],
+        structuredContent: { mailbox: args.name },
+      };
+    } catch (error) {
+      return this.errorResult('deleting mailbox', error);
+    }
+  }
+
+  private async listAllEmails(args: ToolInput<'list_all_emails'>) {
+    try {
+      const { mailService, mailIndex } = this.accounts.get(args.account);
+      const mailbox = args.mailbox || 'INBOX';
+      const page_size = Math.min(args.page_size || 50, 100); // Cap at 100 for performance
+      const pageOptions = {
+        page: args.page,
+        pageSize: page_size,
+        cursor: args.cursor,
+        order: args.order,
+      };
+
+      const indexed = await mailIndex.listPage(mailbox, pageOptions, args.source);
+      const result = indexed || await mailService.listEmailsPage(mailbox, pageOptions);
+      const data = {
+        mailbox,
+        ...result,
+        emails: result.emails.map(summaryData),
+        source: indexed ? 'index' : 'server',
+        syncedAt: indexed?.syncedAt,
+      };
+
+      if (result.emails.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `No emails found on page ${result.page} of mailbox "${mailbox}" (${result.total} emails total)`,
+            },
+          ],
+          structuredContent: data,
+        };
+      }
+
+      const summary = result.emails.map(email => 
+        `UID: ${email.uid}\n` +
+        `From: ${email.from}\n` +
+        `Subject: ${email.subject}\n` +
+        `Date: ${email.date.toISOString()}\n` +
+        `Flags: ${email.flags.join(', ')}\n` +
+        `Attachments: ${email.hasAttachments ? 'Yes' : 'No'}\n`
+      ).join('\n---\n');
+
+      const startIndex = result.offset + 1;
+      const endIndex = result.offset + result.emails.length;
+      const ordering = `sorted by ${result.sortedBy}` + (indexed ? `, from the local index synced ${indexed.syncedAt}` : '');
+      const next = result.nextCursor
+        ? `\n\nNext page cursor: ${result.nextCursor}`
+        : '\n\nThis is the last page.';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Page ${result.page} of ${result.totalPages} (${startIndex}-${endIndex} of ${result.total} emails in "${mailbox}", ${ordering}):\n\n${summary}${next}`,
+          },
+        ],
+        structuredContent: data,
+      };
+    } catch (error) {
+      return this.errorResult('listing emails', error);
+    }
+  }
+
+  private formatSyncResult(result: SyncResult): string {
+    const lines = [
+      `Indexed "${result.mailbox}": ${result.total} messages${result.bodies ? ' with text bodies' : ''}`,
+      result.reset
+        ? `Full sync: fetched ${result.added} messages`
+        : `Incremental sync: ${result.added} new, ${result.updated} with changed flags, ${result.removed} removed`,
+      `Flag changes detected with ${result.condstore ? 'CONDSTORE' : 'a full flag refresh (server lacks CONDSTORE)'}`,
+    ];
+    return lines.join('\n');
+  }
+
+  private async syncMailbox(args: ToolInput<'sync_mailbox'>) {
+    try {
+      const { mailIndex } = this.accounts.get(args.account);
+      const result = await mailIndex.sync(args.mailbox || 'INBOX', {
+        bodies: args.includeBodies,
+        rebuild: args.rebuild,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatSyncResult(result),
+          },
+        ],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return this.errorResult('syncing mailbox', error);
+    }
+  }
+
+  private async indexStatus(args: ToolInput<'index_status'>) {
+    try {
+      const { mailIndex } = this.accounts.get(args.account);
+      const statuses = await mailIndex.status(args.mailbox);
+
+      if (statuses.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: args.mailbox
+                ? `Mailbox "${args.mailbox}" is not indexed; run sync_mailbox to index it`
+                : 'No mailboxes are indexed; run sync_mailbox to index one',
+            },
+          ],
+          structuredContent: { mailboxes: [] },
+        };
+      }
+
+      const summary = statuses.map(status =>
+        `${status.mailbox}: ${status.messages} messages` +
+        `${status.bodies ? ', text bodies' : ''}` +
+        `, last synced ${status.syncedAt}` +
+        `${status.condstore ? ', CONDSTORE' : ''}`
+      ).join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Indexed mailboxes (${statuses.length}):\n\n${summary}`,
+          },
+        ],
+        structuredContent: { mailboxes: statuses },
+      };
+    } catch (error) {
+      return this.errorResult('reading index status', error);
+    }
+  }
+
+  private async sendMail(args: ToolInput<'send_mail'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      // Validate parameters and normalize recipient lists
+      const validation = this.validateSendMailParams(args);
+      
+      if (!validation.isValid) {
+        return this.validationFailure('send_mail', validation.errors);
+      }
+
+      const result = await mailService.sendMail(validation.params!);
+      
+      if (result.success) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Email sent successfully!\nMessage ID: ${result.messageId}${this.formatSendDetails(result)}`,
+            },
+          ],
+          structuredContent: sendResultData(result),
+        };
+      } else {
+        return this.failure('SEND_FAILED', `Failed to send email: ${result.error}${this.formatSendDetails(result)}`);
+      }
+    } catch (error) {
+      return this.errorResult('sending email', error);
+    }
+  }
+
+  private formatSendDetails(result: SendMailResult): string {
+    let text = '';
+
+    if (result.recipients?.length) {
+      const lines = result.recipients.map(recipient => 
+        `${recipient.accepted ? '✓' : '✗'} ${recipient.address}` +
+        (recipient.accepted ? '' : ` (rejected${recipient.response ? `: ${recipient.response}` : ''})`)
+      );
+      text += `\n\nRecipients:\n${lines.join('\n')}`;
+    }
+
+    if (result.sentMailbox) {
+      text += `\n\nSaved copy to "${result.sentMailbox}"${result.sentUid ? ` (UID ${result.sentUid})` : ''}`;
+    } else if (result.sentCopyError) {
+      text += `\n\n⚠️ Sent, but saving a copy to the Sent folder failed: ${result.sentCopyError}`;
+    }
+
+    return text;
+  }
+
+
+  private async replyToEmail(args: ToolInput<'reply_to_email'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      if (!args.text && !args.html) {
+        throw new MailError('INVALID_ARGUMENT', 'Either text or html content is required');
+      }
+
+      const result = await mailService.replyToEmail(
+        args.mailbox || 'INBOX',
+        args.uid,
+        {
+          text: args.text,
+          html: args.html,
+          replyAll: args.replyAll,
+          attachments: args.attachments,
+        }
+      );
+
+      if (!result.success) {
+        return this.failure('SEND_FAILED', `Failed to send reply: ${result.error}${this.formatSendDetails(result)}`);
       }
-    });
-  }
 
-  private async listMailboxes() {
-    try {
-      const mailboxes = await this.mailService.listMailboxes();
       return {
         content: [
           {
             type: 'text',
-            text: `Found ${mailboxes.length} mailboxes:\n${mailboxes.join('\n')}`,
+            text: `Reply sent successfully!\nMessage ID: ${result.messageId}\nTo: ${result.to?.join(', ')}` +
+              (result.cc?.length ? `\nCc: ${result.cc.join(', ')}` : '') +
+              this.formatSendDetails(result),
           },
         ],
+        structuredContent: { ...sendResultData(result), to: result.to, cc: result.cc },
       };
     } catch (error) {
+      return this.errorResult('replying to email', error);
+    }
+  }
+
+  private async forwardEmail(args: ToolInput<'forward_email'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const errors: ValidationError[] = [];
+      const seen = new Set<string>();
+      const to = args.to ? this.parseRecipients('to', args.to, seen, errors) : [];
+      const cc = args.cc ? this.parseRecipients('cc', args.cc, seen, errors) : [];
+
+      if (errors.length > 0) {
+        throw new MailError('INVALID_ARGUMENT', errors.map(error => `${error.field}: ${error.message}`).join('; '));
+      }
+      if (to.length === 0) {
+        throw new MailError('INVALID_ARGUMENT', 'At least one recipient email address is required');
+      }
+      if (to.length + cc.length > this.maxRecipients) {
+        throw new MailError('LIMIT_EXCEEDED', `Too many recipients: ${to.length + cc.length} (maximum is ${this.maxRecipients})`);
+      }
+
+      const result = await mailService.forwardEmail(
+        args.mailbox || 'INBOX',
+        args.uid,
+        {
+          to,
+          cc: cc.length > 0 ? cc : undefined,
+          text: args.text,
+          html: args.html,
+          includeAttachments: args.includeAttachments,
+        }
+      );
+
+      if (!result.success) {
+        return this.failure('SEND_FAILED', `Failed to forward email: ${result.error}${this.formatSendDetails(result)}`);
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `Error listing mailboxes: ${error instanceof Error ? error.message : String(error)}`,
+            text: `Email forwarded successfully!\nMessage ID: ${result.messageId}\nAttachments included: ${result.attachmentCount}${this.formatSendDetails(result)}`,
           },
         ],
+        structuredContent: { ...sendResultData(result), attachmentCount: result.attachmentCount },
       };
+    } catch (error) {
+      return this.errorResult('forwarding email', error);
+    }
+  }
+
+  // Validate and normalize the recipient fields a draft may carry
+  private parseDraftRecipients(args: { to?: any; cc?: any; bcc?: any }): { to?: string[]; cc?: string[]; bcc?: string[] } {
+    const errors: ValidationError[] = [];
+    const seen = new Set<string>();
+    const to = args.to ? this.parseRecipients('to', args.to, seen, errors) : undefined;
+    const cc = args.cc ? this.parseRecipients('cc', args.cc, seen, errors) : undefined;
+    const bcc = args.bcc ? this.parseRecipients('bcc', args.bcc, seen, errors) : undefined;
+
+    if (errors.length > 0) {
+      throw new MailError('INVALID_ARGUMENT', errors.map(error => `${error.field}: ${error.message}`).join('; '));
+    }
+    const total = (to?.length || 0) + (cc?.length || 0) + (bcc?.length || 0);
+    if (total > this.maxRecipients) {
+      throw new MailError('LIMIT_EXCEEDED', `Too many recipients: ${total} (maximum is ${this.maxRecipients})`);
     }
+
+    return { to, cc, bcc };
   }
 
-  private async createMailbox(args: { name: string }) {
+  private async createDraft(args: ToolInput<'create_draft'>) {
     try {
-      await this.mailService.createMailbox(args.name);
+      const { mailService } = this.accounts.get(args.account);
+      const result = await mailService.createDraft({
+        ...this.parseDraftRecipients(args),
+        subject: args.subject,
+        text: args.text,
+        html: args.html,
+        attachments: args.attachments,
+      }, args.replyTo);
+
       return {
         content: [
           {
             type: 'text',
-            text: `Mailbox "${args.name}" created successfully`,
+            text: `Draft saved to "${result.mailbox}"${result.uid ? ` with UID ${result.uid}` : ''}`,
           },
         ],
+        structuredContent: result,
       };
     } catch (error) {
+      return this.errorResult('creating draft', error);
+    }
+  }
+
+  private async updateDraft(args: ToolInput<'update_draft'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const result = await mailService.updateDraft(args.uid, {
+        ...this.parseDraftRecipients(args),
+        subject: args.subject,
+        text: args.text,
+        html: args.html,
+        attachments: args.attachments,
+      });
+
       return {
         content: [
           {
             type: 'text',
-            text: `Error creating mailbox: ${error instanceof Error ? error.message : String(error)}`,
+            text: `Draft ${args.uid} updated in "${result.mailbox}"${result.uid ? ` (new UID ${result.uid})` : ''}`,
           },
         ],
+        structuredContent: { ...result, previousUid: args.uid },
       };
+    } catch (error) {
+      return this.errorResult('updating draft', error);
     }
   }
 
-  private async searchEmails(args: any) {
+  private async listDrafts(args: ToolInput<'list_drafts'>) {
     try {
-      const emails = await this.mailService.searchEmails(args);
-      
-      if (emails.length === 0) {
+      const { mailService } = this.accounts.get(args.account);
+      const { mailbox, drafts } = await mailService.listDrafts();
+
+      if (drafts.length === 0) {
         return {
           content: [
             {
               type: 'text',
-              text: 'No emails found matching the criteria',
+              text: `No drafts in "${mailbox}"`,
             },
           ],
+          structuredContent: { mailbox, drafts: [] },
         };
       }
 
-      const limit = args.limit || 50;
-      const limited = emails.slice(0, limit);
-      
-      const summary = limited.map(email => 
+      const summary = drafts.map(email => 
         `UID: ${email.uid}\n` +
-        `From: ${email.from}\n` +
+        `To: ${email.to || '(no recipients)'}\n` +
         `Subject: ${email.subject}\n` +
         `Date: ${email.date.toISOString()}\n` +
-        `Flags: ${email.flags.join(', ')}\n` +
         `Attachments: ${email.hasAttachments ? 'Yes' : 'No'}\n`
       ).join('\n---\n');
 
@@ -472,368 +1765,413 @@ export class MailTools {
         content: [
           {
             type: 'text',
-            text: `Found ${emails.length} emails (showing ${limited.length}):\n\n${summary}`,
+            text: `Found ${drafts.length} drafts in "${mailbox}":\n\n${summary}`,
           },
         ],
+        structuredContent: { mailbox, drafts: drafts.map(summaryData) },
       };
     } catch (error) {
+      return this.errorResult('listing drafts', error);
+    }
+  }
+
+  private async sendDraft(args: ToolInput<'send_draft'>) {
+    try {
+      const { mailService } = this.accounts.get(args.account);
+      const result = await mailService.sendDraft(args.uid);
+
+      if (!result.success) {
+        return this.failure('SEND_FAILED', `Failed to send draft: ${result.error}${this.formatSendDetails(result)}`);
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `Error searching emails: ${error instanceof Error ? error.message : String(error)}`,
+            text: `Draft sent successfully and removed from Drafts!\nMessage ID: ${result.messageId}${this.formatSendDetails(result)}`,
           },
         ],
+        structuredContent: sendResultData(result),
       };
+    } catch (error) {
+      return this.errorResult('sending draft', error);
     }
   }
 
-  private async getEmail(args: { mailbox?: string; uid: number }) {
+  private async listRules(args: ToolInput<'list_rules'>) {
     try {
-      const email = await this.mailService.getEmailDetails(
-        args.mailbox || 'INBOX',
-        args.uid
-      );
+      const { rulesEngine } = this.accounts.get(args.account);
+      const { rules } = rulesEngine.loadRules();
       
-      if (!email) {
+      if (rules.length === 0) {
         return {
           content: [
             {
               type: 'text',
-              text: `Email with UID ${args.uid} not found`,
+              text: `No rules defined in ${rulesEngine.getRulesFile()}`,
             },
           ],
+          structuredContent: { rulesFile: rulesEngine.getRulesFile(), rules },
         };
       }
 
-      const details = 
-        `UID: ${email.uid}\n` +
-        `From: ${email.from}\n` +
-        `To: ${email.to}\n` +
-        `Subject: ${email.subject}\n` +
-        `Date: ${email.date.toISOString()}\n` +
-        `Flags: ${email.flags.join(', ')}\n` +
-        `Attachments: ${email.attachments.length}\n\n` +
-        `Text Content:\n${email.textContent || '(No text content)'}\n`;
+      const summary = rules.map(rule => 
+        `Rule: ${rule.name}${rule.enabled === false ? ' (disabled)' : ''}\n` +
+        `Mailbox: ${rule.mailbox || 'INBOX'}\n` +
+        `Conditions: ${JSON.stringify(rule.conditions)}\n` +
+        `Actions: ${rule.actions.map(describeAction).join(', ')}\n`
+      ).join('\n---\n');
 
       return {
         content: [
           {
             type: 'text',
-            text: details,
+            text: `Found ${rules.length} rules in ${rulesEngine.getRulesFile()}:\n\n${summary}`,
           },
         ],
+        structuredContent: { rulesFile: rulesEngine.getRulesFile(), rules },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error getting email: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('listing rules', error);
     }
   }
 
-  private async moveEmails(args: { mailbox?: string; uids: number[]; destination: string }) {
+  private async testRule(args: ToolInput<'test_rule'>) {
     try {
-      await this.mailService.moveEmails(
-        args.mailbox || 'INBOX',
-        args.uids,
-        args.destination
-      );
-      
+      const { rulesEngine } = this.accounts.get(args.account);
+      let rule: MailRule | undefined = args.rule;
+      if (!rule) {
+        if (!args.name) {
+          throw new MailError('INVALID_ARGUMENT', 'Either "name" or "rule" is required');
+        }
+        rule = rulesEngine.loadRules().rules.find(r => r.name === args.name);
+        if (!rule) {
+          throw new MailError('NOT_FOUND', `Rule "${args.name}" not found`);
+        }
+      }
+
+      const uids = await rulesEngine.findMatches(rule);
+
       return {
         content: [
           {
             type: 'text',
-            text: `Moved ${args.uids.length} emails to "${args.destination}"`,
+            text: `Rule "${rule.name}" matches ${uids.length} emails in "${rule.mailbox || 'INBOX'}"` +
+              (uids.length > 0 ? `\nUIDs: ${uids.join(', ')}` : '') +
+              `\nActions: ${rule.actions.map(describeAction).join(', ')}`,
           },
         ],
+        structuredContent: {
+          rule: rule.name,
+          mailbox: rule.mailbox || 'INBOX',
+          uids,
+          actions: rule.actions.map(describeAction),
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error moving emails: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('testing rule', error);
     }
   }
 
-  private async deleteEmails(args: { mailbox?: string; uids: number[]; preview?: boolean }) {
+  private async applyRules(args: ToolInput<'apply_rules'>) {
     try {
-      if (args.preview !== false) {
+      const { rulesEngine } = this.accounts.get(args.account);
+      const dryRun = args?.dryRun !== false;
+      const results = await rulesEngine.applyRules({ names: args?.names, dryRun });
+
+      if (results.length === 0) {
         return {
           content: [
             {
               type: 'text',
-              text: `PREVIEW: Would delete ${args.uids.length} emails with UIDs: ${args.uids.join(', ')}\n\nTo confirm deletion, set preview: false`,
+              text: `No rules to apply (rules file: ${rulesEngine.getRulesFile()})`,
             },
           ],
+          structuredContent: { rulesFile: rulesEngine.getRulesFile(), dryRun, results },
         };
       }
 
-      await this.mailService.deleteEmails(
-        args.mailbox || 'INBOX',
-        args.uids
-      );
-      
+      const summary = results.map(result => 
+        `Rule: ${result.rule} (${result.mailbox})\n` +
+        `Matched: ${result.uids.length}${result.uids.length > 0 ? ` — UIDs: ${result.uids.join(', ')}` : ''}\n` +
+        `Actions: ${result.actions.join(', ')}\n` +
+        (result.error ? `Error: ${result.error}\n` : dryRun ? '' : `Applied: ${result.applied ? 'Yes' : 'No'}\n`)
+      ).join('\n---\n');
+
+      const header = dryRun
+        ? 'DRY RUN: no changes made. To apply, set dryRun: false'
+        : `Applied ${results.filter(r => r.applied).length} of ${results.length} rules`;
+
       return {
         content: [
           {
             type: 'text',
-            text: `Deleted ${args.uids.length} emails`,
+            text: `${header}\n\n${summary}`,
           },
         ],
+        structuredContent: { rulesFile: rulesEngine.getRulesFile(), dryRun, results },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error deleting emails: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('applying rules', error);
     }
   }
 
-  private async markSeen(args: { mailbox?: string; uids: number[]; seen: boolean }) {
+  private describeSubscription(subscription: Subscription): string {
+    const methods = [
+      subscription.methods.oneClick && 'one-click',
+      subscription.methods.mailto && 'mailto',
+      subscription.methods.web && `web (${subscription.methods.web})`,
+    ].filter(Boolean).join(', ') || 'none';
+
+    return `${subscription.senderName ? `${subscription.senderName} <${subscription.sender}>` : subscription.sender}` +
+      (subscription.listId ? ` [${subscription.listId}]` : '') +
+      `\nKey: ${subscription.key}` +
+      `\nEmails: ${subscription.count} (${subscription.unread} unread), latest ${subscription.latestDate.toISOString().slice(0, 10)}: ${subscription.latestSubject}` +
+      `\nUnsubscribe: ${methods}`;
+  }
+
+  private async findSubscriptions(args: ToolInput<'find_subscriptions'>) {
     try {
-      await this.mailService.markSeen(
-        args.mailbox || 'INBOX',
-        args.uids,
-        args.seen
-      );
-      
+      const { unsubscribeService } = this.accounts.get(args.account);
+      const result = await unsubscribeService.findSubscriptions({
+        mailbox: args.mailbox,
+        sinceDays: args.sinceDays,
+        scanLimit: args.scanLimit,
+      });
+
+      const text = result.subscriptions.length === 0
+        ? `No emails with a List-Unsubscribe header found in "${result.mailbox}"`
+        : `Found ${result.subscriptions.length} subscriptions in ${result.scanned} emails in "${result.mailbox}":\n\n` +
+          result.subscriptions.map(subscription => this.describeSubscription(subscription)).join('\n---\n');
+
       return {
         content: [
           {
             type: 'text',
-            text: `Marked ${args.uids.length} emails as ${args.seen ? 'read' : 'unread'}`,
+            text,
           },
         ],
+        structuredContent: {
+          mailbox: result.mailbox,
+          scanned: result.scanned,
+          subscriptions: result.subscriptions.map(subscriptionData),
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error marking emails: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('finding subscriptions', error);
     }
   }
 
-  private async addFlags(args: { mailbox?: string; uids: number[]; flags: string[] }) {
-    try {
-      await this.mailService.addFlags(
-        args.mailbox || 'INBOX',
-        args.uids,
-        args.flags
-      );
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Added flags ${args.flags.join(', ')} to ${args.uids.length} emails`,
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error adding flags: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+  private describeUnsubscribe(result: UnsubscribeResult): string {
+    const { subscription, followUp } = result;
+    const via = result.method === 'one-click'
+      ? `one-click POST to ${result.target}`
+      : result.method === 'mailto' ? `email to ${result.target}` : `web page ${result.target}`;
+    const moved = followUp?.action === 'move' ? `to "${followUp.destination}"` : '';
+
+    if (result.preview) {
+      return [
+        `PREVIEW: Would unsubscribe from ${subscription.key} (${subscription.count} emails in "${subscription.mailbox}") via ${via}`,
+        ...(result.method === 'web' ? ['This list only offers an unsubscribe page, which has to be opened in a browser'] : []),
+        ...(followUp
+          ? [`Then ${followUp.action} these ${followUp.uids.length} emails and any others from ${subscription.key} ${moved}`.trimEnd()]
+          : []),
+        '',
+        'To unsubscribe, set preview: false',
+      ].join('\n');
     }
+
+    return `Unsubscribed from ${subscription.key} via ${via}` +
+      (result.status !== undefined ? ` (HTTP ${result.status})` : '') +
+      (followUp?.error
+        ? `\n⚠️ Could not ${followUp.action} ${followUp.uids.length} emails ${moved}`.trimEnd() + `: ${followUp.error}`
+        : followUp
+          ? `\n${followUp.action === 'move' ? 'Moved' : 'Deleted'} ${followUp.uids.length} emails ${moved}`.trimEnd() + this.undoHint(followUp.operationId)
+          : '');
   }
 
-  private async removeFlags(args: { mailbox?: string; uids: number[]; flags: string[] }) {
+  private async unsubscribe(args: ToolInput<'unsubscribe'>) {
     try {
-      await this.mailService.removeFlags(
-        args.mailbox || 'INBOX',
-        args.uids,
-        args.flags
-      );
-      
+      const { unsubscribeService } = this.accounts.get(args.account);
+      const result = await unsubscribeService.unsubscribe({
+        mailbox: args.mailbox,
+        key: args.key,
+        uid: args.uid,
+        method: args.method,
+        preview: args.preview,
+        followUp: args.followUp,
+        destination: args.destination,
+        trashMailbox: args.trashMailbox,
+      });
+
       return {
         content: [
           {
             type: 'text',
-            text: `Removed flags ${args.flags.join(', ')} from ${args.uids.length} emails`,
+            text: this.describeUnsubscribe(result),
           },
         ],
+        structuredContent: { ...result, subscription: subscriptionData(result.subscription) },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error removing flags: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('unsubscribing', error);
     }
   }
 
-  private async deleteMailbox(args: { name: string }) {
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+  }
+
+  private formatMailboxStats(stats: MailboxStats): string {
+    const ranking = (entries: SenderStat[]) =>
+      entries.map(entry => `  ${entry.key}: ${entry.count} emails, ${this.formatBytes(entry.bytes)}`).join('\n') || '  (none)';
+    const range = stats.oldest && stats.newest
+      ? `${stats.oldest.toISOString().slice(0, 10)} to ${stats.newest.toISOString().slice(0, 10)}`
+      : 'empty';
+
+    return [
+      `📁 ${stats.mailbox}: ${stats.examined} emails${stats.truncated ? ` (newest ${stats.examined} of ${stats.matched})` : ''}, ` +
+        `${stats.unread} unread, ${stats.flagged} flagged, ${this.formatBytes(stats.totalBytes)} (${range})`,
+      `Attachments: ${stats.attachments.count} in ${stats.attachments.messages} emails, ${this.formatBytes(stats.attachments.bytes)}`,
+      `Top senders by count:\n${ranking(stats.topSenders.byCount)}`,
+      `Top senders by size:\n${ranking(stats.topSenders.byBytes)}`,
+      `Top domains by count:\n${ranking(stats.topDomains.byCount)}`,
+      `Top domains by size:\n${ranking(stats.topDomains.byBytes)}`,
+      `Age:\n${stats.ageHistogram.map(bucket => `  ${bucket.label}: ${bucket.count} emails, ${this.formatBytes(bucket.bytes)}`).join('\n')}`,
+      `Largest:\n${stats.largest.map(email =>
+        `  UID ${email.uid}: ${this.formatBytes(email.size)} — ${email.subject} (${email.from}, ${email.date.toISOString().slice(0, 10)})`
+      ).join('\n') || '  (none)'}`,
+    ].join('\n');
+  }
+
+  private async mailboxStats(args: ToolInput<'mailbox_stats'>) {
     try {
-      // First check if mailbox is empty
-      const emails = await this.mailService.searchEmails({
-        mailbox: args.name,
-        limit: 1
+      const { statsService } = this.accounts.get(args.account);
+      const results = await statsService.getStats([...new Set(args.mailboxes)], {
+        sinceDays: args.sinceDays,
+        maxMessages: args.maxMessages,
+        top: args.top,
+        largest: args.largest,
       });
-      
-      if (emails.length > 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Cannot delete mailbox "${args.name}": mailbox is not empty (contains ${emails.length}+ emails)`,
-            },
-          ],
-        };
-      }
+      const totals = {
+        messages: results.reduce((total, stats) => total + stats.examined, 0),
+        unread: results.reduce((total, stats) => total + stats.unread, 0),
+        bytes: results.reduce((total, stats) => total + stats.totalBytes, 0),
+      };
 
-      await this.mailService.deleteMailbox(args.name);
       return {
         content: [
           {
             type: 'text',
-            text: `Mailbox "${args.name}" deleted successfully`,
+            text: results.map(stats => this.formatMailboxStats(stats)).join('\n\n---\n\n') +
+              (results.length > 1 ? `\n\nTotal: ${totals.messages} emails, ${totals.unread} unread, ${this.formatBytes(totals.bytes)}` : ''),
           },
         ],
+        structuredContent: { mailboxes: results.map(mailboxStatsData), totals },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error deleting mailbox: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('computing mailbox statistics', error);
     }
   }
 
-  private async listAllEmails(args: { mailbox?: string; page?: number; page_size?: number }) {
+  private describeCopy(copy: DuplicateCopy): string {
+    return `${copy.mailbox} UID ${copy.uid} (received ${copy.date.toISOString().slice(0, 10)}, ${this.formatBytes(copy.size)})`;
+  }
+
+  private async findDuplicates(args: ToolInput<'find_duplicates'>) {
     try {
-      const mailbox = args.mailbox || 'INBOX';
-      const page = args.page || 1;
-      const page_size = Math.min(args.page_size || 50, 100); // Cap at 100 for performance
-      
-      // Get all emails (without limit first to get total count)
-      const allEmails = await this.mailService.searchEmails({
-        mailbox: mailbox,
-        limit: 10000 // Large number to get all
+      const { duplicateFinder } = this.accounts.get(args.account);
+      const scan = await duplicateFinder.findDuplicates([...new Set(args.mailboxes)], {
+        sinceDays: args.sinceDays,
+        maxMessages: args.maxMessages,
       });
-      
-      const totalEmails = allEmails.length;
-      const totalPages = Math.ceil(totalEmails / page_size);
-      const startIndex = (page - 1) * page_size;
-      const endIndex = Math.min(startIndex + page_size, totalEmails);
-      const pageEmails = allEmails.slice(startIndex, endIndex);
-
-      if (pageEmails.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No emails found on page ${page} of mailbox "${mailbox}"`,
-            },
-          ],
-        };
-      }
+      const extras = (group: DuplicateGroup) => group.copies.slice(1);
+      const duplicateCount = scan.groups.reduce((total, group) => total + extras(group).length, 0);
+      const reclaimableBytes = scan.groups.reduce(
+        (total, group) => total + extras(group).reduce((sum, copy) => sum + copy.size, 0),
+        0
+      );
+      const groups = scan.groups.slice(0, args.limit);
 
-      const summary = pageEmails.map(email => 
-        `UID: ${email.uid}\n` +
-        `From: ${email.from}\n` +
-        `Subject: ${email.subject}\n` +
-        `Date: ${email.date.toISOString()}\n` +
-        `Flags: ${email.flags.join(', ')}\n` +
-        `Attachments: ${email.hasAttachments ? 'Yes' : 'No'}\n`
+      const header = `Found ${scan.groups.length} duplicate groups (${duplicateCount} extra copies, ${this.formatBytes(reclaimableBytes)}) ` +
+        `in ${scan.examined} emails across ${scan.mailboxes.map(mailbox => `"${mailbox}"`).join(', ')}` +
+        (scan.truncated.length > 0 ? `\nOnly the newest ${args.maxMessages} emails were examined in: ${scan.truncated.join(', ')}` : '') +
+        (groups.length < scan.groups.length ? `\nShowing the first ${groups.length}` : '');
+      const details = groups.map(group =>
+        `${group.subject} — ${group.from || '(unknown sender)'}\nKey: ${group.key}\n` +
+        group.copies.map(copy => `  ${this.describeCopy(copy)}`).join('\n')
       ).join('\n---\n');
 
       return {
         content: [
           {
             type: 'text',
-            text: `Page ${page} of ${totalPages} (${startIndex + 1}-${endIndex} of ${totalEmails} emails in "${mailbox}"):\n\n${summary}`,
+            text: details ? `${header}\n\n${details}\n\nTo remove the extra copies, use dedupe` : header,
           },
         ],
+        structuredContent: {
+          mailboxes: scan.mailboxes,
+          examined: scan.examined,
+          truncated: scan.truncated,
+          totalGroups: scan.groups.length,
+          duplicateCount,
+          reclaimableBytes,
+          groups: groups.map(group => ({ ...group, copies: group.copies.map(duplicateCopyData) })),
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error listing emails: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return this.errorResult('finding duplicates', error);
     }
   }
 
-  private async sendMail(args: any) {
+  private async dedupe(args: ToolInput<'dedupe'>) {
     try {
-      // Validate parameters - single recipient only
-      const validation = this.validateSendMailParams(args);
-      
-      if (!validation.isValid) {
-        const errorMessages = validation.errors.map(error => 
-          `❌ Field "${error.field}": ${error.message}\n   Received: ${error.receivedType} = ${JSON.stringify(error.receivedValue)}`
-        ).join('\n\n');
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ SEND_MAIL VALIDATION ERRORS:\n\n${errorMessages}\n\n💡 Expected format (single recipient only):\n- to: "email@domain.com" (required - single string only)\n- subject: "subject text" (required)\n- text: "message content" (optional)\n- html: "<html>content</html>" (optional)\n- attachments: array (optional)\n\n⚠️ Note: Arrays not supported. Send to one recipient at a time.`,
-            },
-          ],
-        };
-      }
+      const { duplicateFinder } = this.accounts.get(args.account);
+      const result = await duplicateFinder.dedupe([...new Set(args.mailboxes)], {
+        sinceDays: args.sinceDays,
+        maxMessages: args.maxMessages,
+        preferredMailboxes: args.preferredMailboxes,
+        keys: args.keys,
+        preview: args.preview,
+      });
+      const removed = result.removals.reduce((total, removal) => total + removal.uids.length, 0);
+
+      const summary = result.entries.map(entry =>
+        `${entry.subject}\n  Keep: ${this.describeCopy(entry.keep)}\n` +
+        entry.remove.map(copy => `  Remove: ${this.describeCopy(copy)}`).join('\n')
+      ).join('\n---\n');
+      const header = result.entries.length === 0
+        ? 'No duplicates found'
+        : result.preview
+          ? `PREVIEW: Would move ${removed} duplicate copies from ${result.entries.length} groups to "${result.trashMailbox}"`
+          : `Moved ${removed} duplicate copies from ${result.entries.length} groups to "${result.trashMailbox}"` +
+            result.removals.map(removal => `\n${removal.mailbox}: ${removal.uids.length} emails${this.undoHint(removal.operationId)}`).join('');
 
-      const result = await this.mailService.sendMail(validation.params!);
-      
-      if (result.success) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Email sent successfully!\nMessage ID: ${result.messageId}`,
-            },
-          ],
-        };
-      } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Failed to send email: ${result.error}`,
-            },
-          ],
-        };
-      }
-    } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error sending email: ${error instanceof Error ? error.message : String(error)}`,
+            text: [header, summary, result.preview && removed > 0 ? 'To remove them, set preview: false' : '']
+              .filter(Boolean)
+              .join('\n\n'),
           },
         ],
+        structuredContent: {
+          preview: result.preview,
+          trashMailbox: result.trashMailbox,
+          entries: result.entries.map(entry => ({
+            ...entry,
+            keep: duplicateCopyData(entry.keep),
+            remove: entry.remove.map(duplicateCopyData),
+          })),
+          removals: result.removals,
+        },
       };
+    } catch (error) {
+      return this.errorResult('removing duplicates', error);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,642 @@
+import { AttachmentInfo, EmailDetails, EmailSummary, SendMailResult } from '../services/mail-service.js';
+import { ThreadNode } from '../services/thread-service.js';
+import { JournalOperation, isUndoable } from '../services/operation-journal.js';
+import { Subscription } from '../services/unsubscribe-service.js';
+import { MailboxStats } from '../services/mailbox-stats.js';
+import { DuplicateCopy } from '../services/duplicate-finder.js';
+
+/*
+ * JSON Schemas for the structuredContent each tool returns next to its
+ * text. Dates are ISO 8601 strings and attachments never carry content.
+ */
+
+const STRING_ARRAY = { type: 'array', items: { type: 'string' } };
+const UID_ARRAY = { type: 'array', items: { type: 'integer' } };
+
+const EMAIL_SUMMARY = {
+  type: 'object',
+  properties: {
+    uid: { type: 'integer' },
+    subject: { type: 'string' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    date: { type: 'string', format: 'date-time' },
+    flags: STRING_ARRAY,
+    hasAttachments: { type: 'boolean' },
+    size: { type: 'integer', description: 'Size in bytes' },
+    messageId: { type: 'string' },
+    inReplyTo: { type: 'string' },
+    references: STRING_ARRAY,
+    mailbox: { type: 'string', description: 'Set when results span several mailboxes' },
+  },
+  required: ['uid', 'subject', 'from', 'to', 'date', 'flags'],
+};
+
+const EMAIL_LIST = { type: 'array', items: EMAIL_SUMMARY };
+
+const ATTACHMENT = {
+  type: 'object',
+  properties: {
+    index: { type: 'integer' },
+    filename: { type: 'string' },
+    contentType: { type: 'string' },
+    size: { type: 'integer' },
+    contentId: { type: 'string' },
+  },
+  required: ['index', 'filename', 'contentType', 'size'],
+};
+
+const EMAIL_DETAILS = {
+  type: 'object',
+  properties: {
+    ...EMAIL_SUMMARY.properties,
+    cc: { type: 'string' },
+    bcc: { type: 'string' },
+    replyTo: { type: 'string' },
+    textContent: { type: 'string' },
+    htmlContent: { type: 'string' },
+    attachments: { type: 'array', items: ATTACHMENT },
+    headers: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  required: [...EMAIL_SUMMARY.required, 'attachments', 'headers'],
+};
+
+// Reply trees nest, so they refer back to their own definition
+const THREAD_DEFINITIONS = {
+  threadNode: {
+    type: 'object',
+    properties: {
+      message: EMAIL_SUMMARY,
+      children: { type: 'array', items: { $ref: '#/definitions/threadNode' } },
+    },
+    required: ['message', 'children'],
+  },
+};
+const THREAD_LIST = { type: 'array', items: { $ref: '#/definitions/threadNode' } };
+
+const SEND_RESULT_PROPERTIES = {
+  messageId: { type: 'string' },
+  recipients: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        address: { type: 'string' },
+        accepted: { type: 'boolean' },
+        response: { type: 'string' },
+      },
+      required: ['address', 'accepted'],
+    },
+  },
+  sentMailbox: { type: 'string', description: 'Where the copy of the sent message was saved' },
+  sentUid: { type: 'integer' },
+  sentCopyError: { type: 'string', description: 'Why saving the sent copy failed; the message itself was sent' },
+};
+
+const SEND_RESULT = {
+  type: 'object',
+  properties: SEND_RESULT_PROPERTIES,
+  required: ['messageId'],
+};
+
+const DRAFT_RESULT = {
+  type: 'object',
+  properties: {
+    mailbox: { type: 'string' },
+    uid: { type: 'integer', description: 'Omitted when the server does not report UIDs of appended messages' },
+  },
+  required: ['mailbox'],
+};
+
+const FLAG_CHANGE = {
+  type: 'object',
+  properties: {
+    mailbox: { type: 'string' },
+    uids: UID_ARRAY,
+    flags: STRING_ARRAY,
+    operationId: { type: 'string' },
+  },
+  required: ['mailbox', 'uids', 'flags'],
+};
+
+const OPERATION = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['move', 'delete', 'flags'] },
+    timestamp: { type: 'string', format: 'date-time' },
+    mailbox: { type: 'string' },
+    destination: { type: 'string' },
+    flags: STRING_ARRAY,
+    action: { type: 'string', enum: ['add', 'remove'] },
+    messages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          uid: { type: 'integer' },
+          messageId: { type: 'string' },
+          subject: { type: 'string' },
+          flags: STRING_ARRAY,
+          newUid: { type: 'integer' },
+        },
+        required: ['uid', 'flags'],
+      },
+    },
+    unrestorable: UID_ARRAY,
+    undoneAt: { type: 'string', format: 'date-time' },
+    undoable: { type: 'boolean' },
+  },
+  required: ['id', 'type', 'timestamp', 'mailbox', 'messages', 'undoable'],
+};
+
+const WATCH_STATUS = {
+  type: 'object',
+  properties: {
+    account: { type: 'string' },
+    mailbox: { type: 'string' },
+    watching: { type: 'boolean' },
+    subscriptions: { type: 'integer', description: 'Resource subscriptions still using the watcher' },
+    watches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          account: { type: 'string' },
+          mailbox: { type: 'string' },
+          state: { type: 'string', enum: ['connecting', 'watching', 'reconnecting', 'stopped'] },
+        },
+        required: ['account', 'mailbox', 'state'],
+      },
+    },
+  },
+  required: ['account', 'mailbox', 'watching', 'watches'],
+};
+
+const RULE = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    mailbox: { type: 'string' },
+    enabled: { type: 'boolean' },
+    conditions: { type: 'object' },
+    actions: { type: 'array', items: { type: 'object' } },
+  },
+  required: ['name', 'conditions', 'actions'],
+};
+
+const RULE_MATCH = {
+  type: 'object',
+  properties: {
+    rule: { type: 'string' },
+    mailbox: { type: 'string' },
+    uids: UID_ARRAY,
+    actions: STRING_ARRAY,
+    applied: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+  required: ['rule', 'mailbox', 'uids', 'actions'],
+};
+
+const SUBSCRIPTION = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'List-Id, or the sender address when there is none' },
+    listId: { type: 'string' },
+    sender: { type: 'string' },
+    senderName: { type: 'string' },
+    mailbox: { type: 'string' },
+    count: { type: 'integer' },
+    unread: { type: 'integer' },
+    latestDate: { type: 'string', format: 'date-time' },
+    latestSubject: { type: 'string' },
+    uids: UID_ARRAY,
+    methods: {
+      type: 'object',
+      properties: {
+        oneClick: { type: 'string', description: 'URL accepting an RFC 8058 one-click POST' },
+        mailto: { type: 'string' },
+        web: { type: 'string', description: 'Unsubscribe page to open in a browser' },
+      },
+    },
+  },
+  required: ['key', 'sender', 'mailbox', 'count', 'unread', 'latestDate', 'latestSubject', 'uids', 'methods'],
+};
+
+const SENDER_STAT = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'Sender address or domain' },
+    count: { type: 'integer' },
+    bytes: { type: 'integer' },
+    unread: { type: 'integer' },
+  },
+  required: ['key', 'count', 'bytes', 'unread'],
+};
+
+const SENDER_RANKING = {
+  type: 'object',
+  properties: {
+    byCount: { type: 'array', items: SENDER_STAT },
+    byBytes: { type: 'array', items: SENDER_STAT },
+  },
+  required: ['byCount', 'byBytes'],
+};
+
+const MAILBOX_STATS = {
+  type: 'object',
+  properties: {
+    mailbox: { type: 'string' },
+    totalMessages: { type: 'integer', description: 'Emails in the mailbox' },
+    matched: { type: 'integer', description: 'Emails selected by sinceDays' },
+    examined: { type: 'integer', description: 'Emails the statistics are computed from' },
+    truncated: { type: 'boolean', description: 'Whether maxMessages left older emails out' },
+    unread: { type: 'integer' },
+    flagged: { type: 'integer' },
+    totalBytes: { type: 'integer' },
+    oldest: { type: 'string', format: 'date-time' },
+    newest: { type: 'string', format: 'date-time' },
+    topSenders: SENDER_RANKING,
+    topDomains: SENDER_RANKING,
+    ageHistogram: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          minDays: { type: 'integer' },
+          maxDays: { type: 'integer' },
+          count: { type: 'integer' },
+          bytes: { type: 'integer' },
+        },
+        required: ['label', 'minDays', 'count', 'bytes'],
+      },
+    },
+    largest: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          uid: { type: 'integer' },
+          from: { type: 'string' },
+          subject: { type: 'string' },
+          date: { type: 'string', format: 'date-time' },
+          size: { type: 'integer' },
+          attachments: { type: 'integer' },
+        },
+        required: ['uid', 'from', 'subject', 'date', 'size', 'attachments'],
+      },
+    },
+    attachments: {
+      type: 'object',
+      properties: {
+        messages: { type: 'integer', description: 'Emails with attachments' },
+        count: { type: 'integer' },
+        bytes: { type: 'integer', description: 'Encoded size as stored on the server' },
+      },
+      required: ['messages', 'count', 'bytes'],
+    },
+  },
+  required: [
+    'mailbox', 'totalMessages', 'matched', 'examined', 'truncated', 'unread', 'flagged', 'totalBytes',
+    'topSenders', 'topDomains', 'ageHistogram', 'largest', 'attachments',
+  ],
+};
+
+const DUPLICATE_COPY = {
+  type: 'object',
+  properties: {
+    mailbox: { type: 'string' },
+    uid: { type: 'integer' },
+    date: { type: 'string', format: 'date-time', description: 'When the server received this copy' },
+    size: { type: 'integer' },
+    flags: STRING_ARRAY,
+  },
+  required: ['mailbox', 'uid', 'date', 'size', 'flags'],
+};
+
+const INDEX_SOURCE = {
+  source: { type: 'string', enum: ['index', 'server'], description: 'Whether the local index or the IMAP server answered' },
+  syncedAt: { type: 'string', format: 'date-time', description: 'Last sync of the index, when it answered' },
+};
+
+const SERVER_INFO = {
+  type: 'object',
+  properties: {
+    user: { type: 'string' },
+    host: { type: 'string' },
+    port: { type: 'integer' },
+  },
+  required: ['user', 'host', 'port'],
+};
+
+function object(properties: Record<string, unknown>, required: string[] = Object.keys(properties)) {
+  return { type: 'object', properties, required };
+}
+
+// Keyed by tool name
+export const TOOL_OUTPUT_SCHEMAS: Record<string, Record<string, unknown>> = {
+  list_accounts: object({
+    defaultAccount: { type: 'string' },
+    accounts: {
+      type: 'array',
+      items: object({ name: { type: 'string' }, isDefault: { type: 'boolean' }, smtp: SERVER_INFO, imap: SERVER_INFO }),
+    },
+  }),
+  list_mailboxes: object({ mailboxes: STRING_ARRAY }),
+  create_mailbox: object({ mailbox: { type: 'string' } }),
+  search_emails: {
+    ...object({
+      emails: EMAIL_LIST,
+      limitReached: { type: 'boolean' },
+      threads: { ...THREAD_LIST, description: 'Set with groupByThread' },
+      ...INDEX_SOURCE,
+    }, ['emails', 'limitReached', 'source']),
+    definitions: THREAD_DEFINITIONS,
+  },
+  get_email: object({ email: EMAIL_DETAILS, markedAsRead: { type: 'boolean' } }, ['email']),
+  get_attachment: object({
+    index: { type: 'integer' },
+    filename: { type: 'string' },
+    contentType: { type: 'string' },
+    size: { type: 'integer' },
+    kind: { type: 'string', enum: ['message', 'text', 'image', 'binary'] },
+    text: { type: 'string', description: 'Extracted text, or the summary of an attached message' },
+    truncated: { type: 'boolean' },
+    attachments: { type: 'array', items: ATTACHMENT, description: 'Attachments of an attached message' },
+    uri: { type: 'string', description: 'Resource URI of a binary attachment' },
+    tooLarge: { type: 'boolean', description: 'Content omitted because it exceeds maxBytes' },
+  }, ['index', 'filename', 'contentType', 'size', 'kind']),
+  save_attachments: object({
+    saved: STRING_ARRAY,
+    skipped: { type: 'array', items: object({ filename: { type: 'string' }, reason: { type: 'string' } }) },
+  }),
+  get_thread: {
+    ...object({
+      messageCount: { type: 'integer' },
+      mailboxes: STRING_ARRAY,
+      skippedMailboxes: {
+        type: 'array',
+        items: object({ mailbox: { type: 'string' }, error: { type: 'string' } }),
+        description: 'Mailboxes that could not be searched; the thread may be incomplete',
+      },
+      serverThreading: { type: 'boolean' },
+      threads: THREAD_LIST,
+    }),
+    definitions: THREAD_DEFINITIONS,
+  },
+  move_emails: object({
+    mailbox: { type: 'string' },
+    destination: { type: 'string' },
+    uids: UID_ARRAY,
+    operationId: { type: 'string' },
+  }, ['mailbox', 'destination', 'uids']),
+  delete_emails: object({
+    mailbox: { type: 'string' },
+    uids: UID_ARRAY,
+    preview: { type: 'boolean' },
+    permanent: { type: 'boolean' },
+    trashMailbox: { type: 'string', description: 'Where the emails were (or would be) moved' },
+    operationId: { type: 'string' },
+  }, ['mailbox', 'uids', 'preview', 'permanent']),
+  empty_trash: object({
+    mailbox: { type: 'string' },
+    uids: UID_ARRAY,
+    preview: { type: 'boolean' },
+    olderThanDays: { type: 'integer' },
+  }, ['mailbox', 'uids', 'preview']),
+  mark_seen: object({
+    mailbox: { type: 'string' },
+    uids: UID_ARRAY,
+    seen: { type: 'boolean' },
+    operationId: { type: 'string' },
+  }, ['mailbox', 'uids', 'seen']),
+  add_flags: FLAG_CHANGE,
+  remove_flags: FLAG_CHANGE,
+  list_recent_operations: object({ operations: { type: 'array', items: OPERATION } }),
+  undo_operation: object({
+    operation: OPERATION,
+    restored: { type: 'integer' },
+    missing: { type: 'integer', description: 'Emails that could no longer be found' },
+  }),
+  delete_mailbox: object({ mailbox: { type: 'string' } }),
+  list_all_emails: object({
+    mailbox: { type: 'string' },
+    emails: EMAIL_LIST,
+    total: { type: 'integer' },
+    page: { type: 'integer' },
+    pageSize: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    offset: { type: 'integer' },
+    sortedBy: { type: 'string', enum: ['date', 'uid'] },
+    nextCursor: { type: 'string', description: 'Omitted on the last page' },
+    ...INDEX_SOURCE,
+  }, ['mailbox', 'emails', 'total', 'page', 'pageSize', 'totalPages', 'offset', 'sortedBy', 'source']),
+  sync_mailbox: object({
+    mailbox: { type: 'string' },
+    reset: { type: 'boolean', description: 'Whether the index was rebuilt from scratch' },
+    added: { type: 'integer' },
+    updated: { type: 'integer' },
+    removed: { type: 'integer' },
+    total: { type: 'integer' },
+    bodies: { type: 'boolean' },
+    condstore: { type: 'boolean' },
+  }),
+  index_status: object({
+    mailboxes: {
+      type: 'array',
+      items: object({
+        mailbox: { type: 'string' },
+        messages: { type: 'integer' },
+        bodies: { type: 'boolean' },
+        condstore: { type: 'boolean' },
+        syncedAt: { type: 'string', format: 'date-time' },
+        uidValidity: { type: 'integer' },
+        uidNext: { type: 'integer' },
+      }),
+    },
+  }),
+  watch_mailbox: WATCH_STATUS,
+  unwatch_mailbox: WATCH_STATUS,
+  send_mail: SEND_RESULT,
+  reply_to_email: {
+    ...SEND_RESULT,
+    properties: { ...SEND_RESULT_PROPERTIES, to: STRING_ARRAY, cc: STRING_ARRAY },
+  },
+  forward_email: {
+    ...SEND_RESULT,
+    properties: { ...SEND_RESULT_PROPERTIES, attachmentCount: { type: 'integer' } },
+    required: ['messageId', 'attachmentCount'],
+  },
+  create_draft: DRAFT_RESULT,
+  update_draft: {
+    ...DRAFT_RESULT,
+    properties: { ...DRAFT_RESULT.properties, previousUid: { type: 'integer' } },
+    required: ['mailbox', 'previousUid'],
+  },
+  list_drafts: object({ mailbox: { type: 'string' }, drafts: EMAIL_LIST }),
+  send_draft: SEND_RESULT,
+  list_rules: object({ rulesFile: { type: 'string' }, rules: { type: 'array', items: RULE } }),
+  test_rule: object({
+    rule: { type: 'string' },
+    mailbox: { type: 'string' },
+    uids: UID_ARRAY,
+    actions: STRING_ARRAY,
+  }),
+  apply_rules: object({
+    rulesFile: { type: 'string' },
+    dryRun: { type: 'boolean' },
+    results: { type: 'array', items: RULE_MATCH },
+  }),
+  find_subscriptions: object({
+    mailbox: { type: 'string' },
+    scanned: { type: 'integer', description: 'Emails with a List-Unsubscribe header that were examined' },
+    subscriptions: { type: 'array', items: SUBSCRIPTION },
+  }),
+  unsubscribe: object({
+    subscription: SUBSCRIPTION,
+    method: { type: 'string', enum: ['one-click', 'mailto', 'web'] },
+    target: { type: 'string', description: 'URL posted to, or mailto: URI the request is sent to' },
+    preview: { type: 'boolean' },
+    performed: { type: 'boolean' },
+    status: { type: 'integer', description: 'HTTP status of the one-click request' },
+    messageId: { type: 'string', description: 'Message-ID of the unsubscribe email' },
+    followUp: object({
+      action: { type: 'string', enum: ['move', 'delete'] },
+      uids: UID_ARRAY,
+      destination: { type: 'string' },
+      operationId: { type: 'string' },
+      error: { type: 'string', description: 'Why the follow-up failed; the unsubscribe itself went through' },
+    }, ['action', 'uids']),
+  }, ['subscription', 'method', 'target', 'preview', 'performed']),
+  mailbox_stats: object({
+    mailboxes: { type: 'array', items: MAILBOX_STATS },
+    totals: object({
+      messages: { type: 'integer', description: 'Emails examined across all mailboxes' },
+      unread: { type: 'integer' },
+      bytes: { type: 'integer' },
+    }),
+  }),
+  find_duplicates: object({
+    mailboxes: STRING_ARRAY,
+    examined: { type: 'integer' },
+    truncated: { ...STRING_ARRAY, description: 'Mailboxes where maxMessages left older emails out' },
+    totalGroups: { type: 'integer' },
+    duplicateCount: { type: 'integer', description: 'Copies that dedupe would remove' },
+    reclaimableBytes: { type: 'integer' },
+    groups: {
+      type: 'array',
+      items: object({
+        key: { type: 'string', description: 'Message-ID, or "hash:" and a digest of the normalized headers and body size' },
+        matchedBy: { type: 'string', enum: ['message-id', 'hash'] },
+        subject: { type: 'string' },
+        from: { type: 'string' },
+        copies: { type: 'array', items: DUPLICATE_COPY },
+      }),
+    },
+  }),
+  dedupe: object({
+    preview: { type: 'boolean' },
+    trashMailbox: { type: 'string' },
+    entries: {
+      type: 'array',
+      items: object({
+        key: { type: 'string' },
+        subject: { type: 'string' },
+        keep: DUPLICATE_COPY,
+        remove: { type: 'array', items: DUPLICATE_COPY },
+      }),
+    },
+    removals: {
+      type: 'array',
+      items: object({
+        mailbox: { type: 'string' },
+        uids: UID_ARRAY,
+        operationId: { type: 'string' },
+      }, ['mailbox', 'uids']),
+    },
+  }),
+};
+
+// Drop undefined values so optional properties are omitted rather than null
+function compact<T extends Record<string, unknown>>(data: T): T {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+}
+
+export function summaryData(email: EmailSummary & { mailbox?: string }) {
+  return compact({
+    uid: email.uid,
+    subject: email.subject,
+    from: email.from,
+    to: email.to,
+    date: email.date.toISOString(),
+    flags: email.flags,
+    hasAttachments: email.hasAttachments,
+    size: email.size,
+    messageId: email.messageId,
+    inReplyTo: email.inReplyTo,
+    references: email.references,
+    mailbox: email.mailbox,
+  });
+}
+
+export function attachmentData(attachment: AttachmentInfo, index: number) {
+  return compact({
+    index,
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    contentId: attachment.contentId,
+  });
+}
+
+export function detailsData(email: EmailDetails) {
+  return {
+    ...summaryData(email),
+    ...compact({
+      cc: email.cc,
+      bcc: email.bcc,
+      replyTo: email.replyTo,
+      textContent: email.textContent,
+      htmlContent: email.htmlContent,
+    }),
+    attachments: email.attachments.map(attachmentData),
+    headers: email.headers,
+  };
+}
+
+export function threadData(nodes: ThreadNode<EmailSummary & { mailbox?: string }>[]): unknown[] {
+  return nodes.map(node => ({ message: summaryData(node.message), children: threadData(node.children) }));
+}
+
+export function sendResultData(result: SendMailResult) {
+  return compact({
+    messageId: result.messageId,
+    recipients: result.recipients?.map(recipient => compact({ ...recipient })),
+    sentMailbox: result.sentMailbox,
+    sentUid: result.sentUid,
+    sentCopyError: result.sentCopyError,
+  });
+}
+
+export function subscriptionData(subscription: Subscription) {
+  return compact({ ...subscription, latestDate: subscription.latestDate.toISOString() });
+}
+
+export function mailboxStatsData(stats: MailboxStats) {
+  return compact({
+    ...stats,
+    oldest: stats.oldest?.toISOString(),
+    newest: stats.newest?.toISOString(),
+    ageHistogram: stats.ageHistogram.map(bucket => compact({ ...bucket })),
+    largest: stats.largest.map(message => ({ ...message, date: message.date.toISOString() })),
+  });
+}
+
+export function duplicateCopyData(copy: DuplicateCopy) {
+  return { ...copy, date: copy.date.toISOString() };
+}
+
+export function operationData(operation: JournalOperation) {
+  return { ...operation, undoable: isUndoable(operation) };
+}
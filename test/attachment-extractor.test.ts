@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyAttachment, extractText, parseAttachedMessage, truncateUtf8 } from '../src/services/attachment-extractor.js';
+
+describe('classifyAttachment', () => {
+  it('goes by content type, then by extension', () => {
+    const cases: Array<[string, string, string]> = [
+      ['forwarded.eml', 'application/octet-stream', 'message'],
+      ['unnamed', 'message/rfc822', 'message'],
+      ['notes', 'text/plain', 'text'],
+      ['data', 'application/json', 'text'],
+      ['export.CSV', 'application/octet-stream', 'text'],
+      ['photo.jpg', 'image/jpeg', 'image'],
+      ['report.pdf', 'application/pdf', 'binary'],
+    ];
+    for (const [filename, contentType, kind] of cases) {
+      assert.equal(classifyAttachment({ filename, contentType }), kind, filename);
+    }
+  });
+});
+
+describe('extractText', () => {
+  it('pretty-prints valid JSON', () => {
+    assert.equal(
+      extractText({ filename: 'data.json', contentType: 'application/octet-stream' }, Buffer.from('{"a":[1]}')),
+      '{\n  "a": [\n    1\n  ]\n}'
+    );
+  });
+
+  it('returns invalid JSON unchanged', () => {
+    assert.equal(extractText({ filename: 'x', contentType: 'application/json' }, Buffer.from('{oops')), '{oops');
+  });
+
+  it('strips a UTF-8 byte order mark', () => {
+    assert.equal(
+      extractText({ filename: 'export.csv', contentType: 'text/csv' }, Buffer.from('\uFEFFname,total\n', 'utf8')),
+      'name,total\n'
+    );
+  });
+
+  it('decodes the declared charset', () => {
+    // "Café €5" in Windows-1252 and ISO-8859-1 bytes
+    const cp1252 = Buffer.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x80, 0x35]);
+    assert.equal(extractText({ filename: 'menu.txt', contentType: 'text/plain', charset: 'windows-1252' }, cp1252), 'Café €5');
+    assert.equal(extractText({ filename: 'menu.txt', contentType: 'text/plain', charset: 'ISO-8859-1' }, cp1252.subarray(0, 4)), 'Café');
+  });
+
+  it('falls back to UTF-8 for a missing or unknown charset', () => {
+    const utf8 = Buffer.from('Café', 'utf8');
+    assert.equal(extractText({ filename: 'menu.txt', contentType: 'text/plain' }, utf8), 'Café');
+    assert.equal(extractText({ filename: 'menu.txt', contentType: 'text/plain', charset: 'x-made-up' }, utf8), 'Café');
+  });
+});
+
+describe('truncateUtf8', () => {
+  it('leaves short text alone', () => {
+    assert.equal(truncateUtf8('héllo', 6), 'héllo');
+  });
+
+  it('never splits a multi-byte character', () => {
+    // "é" is 2 bytes and "😀" is 4
+    assert.equal(truncateUtf8('aé', 2), 'a');
+    assert.equal(truncateUtf8('a😀b', 4), 'a');
+    assert.equal(truncateUtf8('a😀b', 5), 'a😀');
+    for (let max = 0; max <= 8; max++) {
+      const cut = truncateUtf8('€😀é', max);
+      assert.ok(Buffer.byteLength(cut) <= max);
+      assert.ok(!cut.includes('\uFFFD'), `replacement character at ${max} bytes`);
+    }
+  });
+});
+
+describe('parseAttachedMessage', () => {
+  it('summarizes headers, text and nested attachments', async () => {
+    const raw = [
+      'From: Alice <alice@example.com>',
+      'To: bob@example.com',
+      'Subject: Quarterly numbers',
+      'Date: Mon, 01 Apr 2024 10:00:00 +0000',
+      'Message-ID: <q1@example.com>',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b"',
+      '',
+      '--b',
+      'Content-Type: text/plain',
+      '',
+      'See attached.',
+      '--b',
+      'Content-Type: text/csv; charset=windows-1252; name="q1.csv"',
+      'Content-Disposition: attachment; filename="q1.csv"',
+      '',
+      'month,total',
+      '--b--',
+      '',
+    ].join('\r\n');
+
+    const { summary, attachments } = await parseAttachedMessage(Buffer.from(raw));
+
+    assert.match(summary, /^From: "?Alice"? <alice@example.com>\nTo: bob@example.com\nSubject: Quarterly numbers\n/);
+    assert.match(summary, /Message-ID: <q1@example.com>\n\nSee attached\./);
+    assert.match(summary, /\[0\] q1\.csv \(text\/csv, \d+ bytes\)/);
+    assert.equal(attachments.length, 1);
+    assert.equal(attachments[0].content?.toString().trim(), 'month,total');
+    assert.equal(attachments[0].charset, 'windows-1252');
+  });
+});
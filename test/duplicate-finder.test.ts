@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MailService, MessageStat } from '../src/services/mail-service.js';
+import { DuplicateFinder, duplicateKey } from '../src/services/duplicate-finder.js';
+
+function stat(uid: number, extra: Partial<MessageStat> = {}): MessageStat {
+  return {
+    uid,
+    from: 'alice@example.com',
+    to: ['bob@example.com', 'carol@example.com'],
+    subject: 'Quarterly  report',
+    sentDate: new Date('2024-04-01T10:00:00.250Z'),
+    date: new Date('2024-04-01T10:00:05Z'),
+    size: 4000,
+    bodySize: 3000,
+    flags: [],
+    attachments: 0,
+    attachmentBytes: 0,
+    ...extra,
+  };
+}
+
+describe('duplicateKey', () => {
+  it('uses the Message-ID when there is one', () => {
+    assert.deepEqual(duplicateKey(stat(1, { messageId: '<a@example.com>' })), { key: '<a@example.com>', matchedBy: 'message-id' });
+  });
+
+  it('hashes normalized headers and the body size otherwise', () => {
+    const { key, matchedBy } = duplicateKey(stat(1));
+    assert.equal(matchedBy, 'hash');
+    assert.match(key, /^hash:[0-9a-f]{32}$/);
+
+    // A server-added header changes the full size and received date, but not the key
+    assert.equal(duplicateKey(stat(2, {
+      to: ['carol@example.com', 'bob@example.com'],
+      subject: 'quarterly report ',
+      sentDate: new Date('2024-04-01T10:00:00Z'),
+      date: new Date('2024-04-02T00:00:00Z'),
+      size: 4200,
+    })).key, key);
+
+    assert.notEqual(duplicateKey(stat(3, { bodySize: 3001 })).key, key);
+    assert.notEqual(duplicateKey(stat(4, { subject: 'Quarterly report v2' })).key, key);
+  });
+});
+
+describe('DuplicateFinder', () => {
+  const mailboxes: Record<string, MessageStat[]> = {
+    INBOX: [
+      stat(10, { messageId: '<a@example.com>', date: new Date('2024-04-03T00:00:00Z') }),
+      stat(11, { messageId: '<b@example.com>' }),
+      stat(12),
+    ],
+    Archive: [
+      stat(20, { messageId: '<a@example.com>', date: new Date('2024-04-02T00:00:00Z') }),
+      stat(21, { size: 4100 }),
+    ],
+  };
+  const deleted: Array<[string, number[], string | undefined]> = [];
+  const mailService = {
+    getTrashMailbox: async () => 'Trash',
+    fetchMessageStats: async (mailbox: string) => ({
+      total: mailboxes[mailbox].length,
+      matched: mailboxes[mailbox].length,
+      messages: mailboxes[mailbox],
+    }),
+    deleteEmails: async (mailbox: string, uids: number[], options: { trashMailbox?: string }) => {
+      deleted.push([mailbox, uids, options.trashMailbox]);
+      return `op-${mailbox}`;
+    },
+  } as unknown as MailService;
+  const finder = new DuplicateFinder(mailService);
+
+  it('groups copies within and across mailboxes, oldest first', async () => {
+    const scan = await finder.findDuplicates(['INBOX', 'Archive']);
+    assert.equal(scan.examined, 5);
+    assert.deepEqual(
+      scan.groups.map(group => [group.matchedBy, group.copies.map(copy => `${copy.mailbox}/${copy.uid}`)]),
+      [
+        ['message-id', ['Archive/20', 'INBOX/10']],
+        ['hash', ['INBOX/12', 'Archive/21']],
+      ]
+    );
+  });
+
+  it('previews which copies a dedupe keeps', async () => {
+    const result = await finder.dedupe(['INBOX', 'Archive'], { preferredMailboxes: ['INBOX'] });
+    assert.equal(result.preview, true);
+    assert.deepEqual(result.entries.map(entry => [entry.keep.uid, entry.remove.map(copy => copy.uid)]), [[10, [20]], [12, [21]]]);
+    assert.deepEqual(result.removals, [{ mailbox: 'Archive', uids: [20, 21] }]);
+    assert.equal(deleted.length, 0);
+  });
+
+  it('moves the extra copies to Trash', async () => {
+    const key = duplicateKey(mailboxes.INBOX[0]).key;
+    const result = await finder.dedupe(['INBOX', 'Archive'], { keys: [key], preview: false });
+    assert.deepEqual(result.removals, [{ mailbox: 'INBOX', uids: [10], operationId: 'op-INBOX' }]);
+    assert.deepEqual(deleted, [['INBOX', [10], 'Trash']]);
+  });
+
+  it('refuses to deduplicate Trash', async () => {
+    await assert.rejects(finder.dedupe(['INBOX', 'Trash']), { code: 'INVALID_ARGUMENT' });
+  });
+});
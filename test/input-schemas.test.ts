@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TOOL_INPUT_SCHEMAS, isToolName, toolInputSchema, validationErrors } from '../src/tools/input-schemas.js';
+
+describe('TOOL_INPUT_SCHEMAS', () => {
+  it('converts numbers, booleans and lists sent as strings', () => {
+    const result = TOOL_INPUT_SCHEMAS.search_emails.safeParse({ limit: '25', unreadOnly: 'true', groupByThread: 'false' });
+    assert.ok(result.success);
+    assert.equal(result.data.limit, 25);
+    assert.equal(result.data.unreadOnly, true);
+    assert.equal(result.data.groupByThread, false);
+  });
+
+  it('accepts UID lists as arrays, JSON, comma-separated text or a single value', () => {
+    for (const uids of [[3, 5], '[3, 5]', '3, 5', ['3', '5']]) {
+      const result = TOOL_INPUT_SCHEMAS.move_emails.safeParse({ uids, destination: 'Archive' });
+      assert.ok(result.success, JSON.stringify(uids));
+      assert.deepEqual(result.data.uids, [3, 5]);
+    }
+    assert.deepEqual(TOOL_INPUT_SCHEMAS.move_emails.parse({ uids: 7, destination: 'Archive' }).uids, [7]);
+  });
+
+  it('fills in defaults and trims mailbox names', () => {
+    const result = TOOL_INPUT_SCHEMAS.move_emails.parse({ uids: [1], destination: '  Archive ' });
+    assert.equal(result.mailbox, 'INBOX');
+    assert.equal(result.destination, 'Archive');
+  });
+
+  it('leaves values it cannot convert for validation to reject', () => {
+    const input = { uids: '[1, two]', flags: '' };
+    const result = TOOL_INPUT_SCHEMAS.add_flags.safeParse(input);
+    assert.ok(!result.success);
+    assert.deepEqual(validationErrors(result.error, input), [
+      { field: 'uids', message: 'Expected array, received string', receivedType: 'string', receivedValue: '[1, two]' },
+      { field: 'flags', message: 'At least one flag is required', receivedType: 'string', receivedValue: '' },
+    ]);
+  });
+
+  it('points errors at the offending list item', () => {
+    const input = { uids: [4, -1], destination: 'Archive' };
+    const result = TOOL_INPUT_SCHEMAS.move_emails.safeParse(input);
+    assert.ok(!result.success);
+    assert.deepEqual(validationErrors(result.error, input), [
+      { field: 'uids.1', message: 'UIDs are positive', receivedType: 'number', receivedValue: -1 },
+    ]);
+  });
+});
+
+describe('toolInputSchema', () => {
+  it('produces a plain JSON Schema object without $schema', () => {
+    const schema = toolInputSchema('move_emails');
+    assert.equal(schema.type, 'object');
+    assert.ok(!('$schema' in schema));
+    assert.deepEqual(schema.required, ['uids', 'destination']);
+  });
+
+  it('only knows defined tools', () => {
+    assert.ok(isToolName('move_emails'));
+    assert.ok(!isToolName('toString'));
+  });
+});
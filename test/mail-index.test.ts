@@ -0,0 +1,141 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { IndexedEmail, MailService, MailboxChanges, MailboxSyncState, encodePageCursor } from '../src/services/mail-service.js';
+import { MailIndex } from '../src/services/mail-index.js';
+
+function indexed(uid: number, subject: string, day: number, flags: string[] = []): IndexedEmail {
+  const date = new Date(Date.UTC(2024, 0, day));
+  return { uid, subject, from: 'alice@example.com', to: 'me@example.com', date, internalDate: date, flags };
+}
+
+/**
+ * A server mailbox the test edits directly. fetchMailboxChanges diffs it
+ * against what the index knows, like the real implementation.
+ */
+function fakeServer(options: { condstore: boolean }) {
+  const server = {
+    uidValidity: 7,
+    messages: [indexed(1, 'Welcome', 3), indexed(2, 'Invoice', 1, ['\\Seen']), indexed(3, 'Agenda', 2)],
+    syncs: 0,
+    // Lets a test hold a sync open to overlap requests
+    delay: 0,
+  };
+
+  const mailService = {
+    fetchMailboxChanges: async (
+      _mailbox: string,
+      known: (MailboxSyncState & { uids: number[] }) | undefined
+    ): Promise<MailboxChanges> => {
+      server.syncs++;
+      await new Promise(resolve => setTimeout(resolve, server.delay));
+      const reset = !known || known.uidValidity !== server.uidValidity;
+      const knownUids = new Set(reset ? [] : known!.uids);
+      const current = new Set(server.messages.map(message => message.uid));
+      return {
+        state: { uidValidity: server.uidValidity, uidNext: Math.max(0, ...current) + 1, highestModSeq: options.condstore ? '1' : undefined },
+        reset,
+        added: server.messages.filter(message => !knownUids.has(message.uid)),
+        flags: new Map(server.messages.filter(message => knownUids.has(message.uid)).map(message => [message.uid, message.flags])),
+        removed: [...knownUids].filter(uid => !current.has(uid)),
+        condstore: options.condstore,
+      };
+    },
+  } as unknown as MailService;
+
+  return { server, mailService };
+}
+
+describe('MailIndex', () => {
+  let root: string;
+  let count = 0;
+  const directory = () => path.join(root, `account-${++count}`);
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'mail-index-'));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('syncs incrementally and answers searches from the index', async () => {
+    const { server, mailService } = fakeServer({ condstore: true });
+    const index = new MailIndex(mailService, directory());
+
+    assert.deepEqual(await index.search({ mailbox: 'INBOX' }), null);
+    assert.equal((await index.sync('INBOX')).added, 3);
+
+    server.messages = server.messages.filter(message => message.uid !== 1);
+    server.messages[0] = { ...server.messages[0], flags: [] };
+    server.messages.push(indexed(4, 'Invoice reminder', 4));
+
+    const result = await index.sync('INBOX');
+    assert.deepEqual([result.added, result.updated, result.removed, result.total], [1, 1, 1, 3]);
+
+    const found = await index.search({ mailbox: 'INBOX', subject: 'invoice', unreadOnly: true }, 'index');
+    assert.deepEqual(found?.emails.map(email => email.uid), [4, 2]);
+  });
+
+  it('shares one sync between concurrent requests', async () => {
+    const { server, mailService } = fakeServer({ condstore: true });
+    const dir = directory();
+    const index = new MailIndex(mailService, dir);
+    await index.sync('INBOX');
+    server.syncs = 0;
+    server.delay = 20;
+
+    const results = await Promise.all([
+      index.search({ mailbox: 'INBOX' }),
+      index.search({ mailbox: 'INBOX', subject: 'agenda' }),
+      index.listPage('INBOX', { pageSize: 2 }),
+    ]);
+    assert.equal(server.syncs, 1);
+    assert.deepEqual(results.map(result => result?.emails.length), [3, 1, 2]);
+
+    // Explicit syncs queue up instead of racing on the index file
+    await Promise.all([index.sync('INBOX'), index.sync('INBOX'), index.sync('INBOX')]);
+    assert.equal(server.syncs, 4);
+    assert.deepEqual(await readdir(dir), ['INBOX.json']);
+  });
+
+  it('reuses a recent sync when the server lacks CONDSTORE', async () => {
+    const { server, mailService } = fakeServer({ condstore: false });
+    const dir = directory();
+    await new MailIndex(mailService, dir).sync('INBOX');
+    server.syncs = 0;
+
+    await new MailIndex(mailService, dir, { autoSyncSeconds: 60 }).search({ mailbox: 'INBOX' });
+    assert.equal(server.syncs, 0);
+
+    await new MailIndex(mailService, dir, { autoSyncSeconds: 0 }).search({ mailbox: 'INBOX' });
+    assert.equal(server.syncs, 1);
+  });
+
+  it('pages by date and keeps cursors with the listing that issued them', async () => {
+    const { mailService } = fakeServer({ condstore: true });
+    const index = new MailIndex(mailService, directory());
+    await index.sync('INBOX');
+
+    const first = await index.listPage('INBOX', { pageSize: 2 }, 'index');
+    assert.deepEqual(first?.emails.map(email => email.uid), [1, 3]);
+    const second = await index.listPage('INBOX', { pageSize: 2, cursor: first!.nextCursor }, 'index');
+    assert.deepEqual(second?.emails.map(email => email.uid), [2]);
+    assert.equal(second?.nextCursor, undefined);
+
+    const serverCursor = encodePageCursor({ uidValidity: 7, maxUid: 3, offset: 2, order: 'newest', source: 'server' });
+    assert.equal(await index.listPage('INBOX', { pageSize: 2, cursor: serverCursor }), null);
+    await assert.rejects(index.listPage('INBOX', { pageSize: 2, cursor: serverCursor }, 'index'), { code: 'INVALID_ARGUMENT' });
+  });
+
+  it('refuses an index cursor once the mailbox is no longer indexed', async () => {
+    const { mailService } = fakeServer({ condstore: true });
+    const index = new MailIndex(mailService, directory());
+    const cursor = encodePageCursor({ uidValidity: 7, maxUid: 3, offset: 2, order: 'newest', source: 'index' });
+
+    await assert.rejects(index.listPage('INBOX', { pageSize: 2, cursor }), /no longer has/);
+    assert.equal(await index.listPage('INBOX', { pageSize: 2, cursor }, 'server'), null);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { mailUri, parseMailUri } from '../src/tools/mail-resources.js';
+
+const ACCOUNTS = ['work', 'personal'];
+const parse = (uri: string) => parseMailUri(uri, ACCOUNTS, 'work');
+
+describe('parseMailUri', () => {
+  it('reads an explicit account', () => {
+    assert.deepEqual(parse('mail://personal/INBOX/42'), {
+      account: 'personal',
+      mailbox: 'INBOX',
+      uid: 42,
+      attachment: undefined,
+      unread: false,
+      limit: undefined,
+    });
+  });
+
+  it('falls back to the default account', () => {
+    assert.deepEqual(parse('mail://INBOX?unread&limit=10'), {
+      account: 'work',
+      mailbox: 'INBOX',
+      uid: undefined,
+      attachment: undefined,
+      unread: true,
+      limit: 10,
+    });
+    const attachment = parse('mail://INBOX/42/attachments/1/0');
+    assert.equal(attachment.account, 'work');
+    assert.deepEqual(attachment.attachment, ['1', '0']);
+  });
+
+  it('reads a lone segment named like an account as a mailbox', () => {
+    const { account, mailbox } = parse('mail://personal');
+    assert.deepEqual({ account, mailbox }, { account: 'work', mailbox: 'personal' });
+  });
+
+  it('round-trips encoded mailbox names', () => {
+    const uri = mailUri('personal', 'Archive/2024 Q1', 7, 'attachments', '<logo@example.com>');
+    assert.equal(uri, 'mail://personal/Archive%2F2024%20Q1/7/attachments/%3Clogo%40example.com%3E');
+    const parsed = parse(uri);
+    assert.equal(parsed.mailbox, 'Archive/2024 Q1');
+    assert.deepEqual(parsed.attachment, ['<logo@example.com>']);
+  });
+
+  it('rejects malformed URIs as invalid params', () => {
+    for (const uri of [
+      'imap://work/INBOX',
+      'mail://',
+      'mail://work/INBOX/0',
+      'mail://work/INBOX/abc',
+      'mail://work/INBOX/4/parts/1',
+      'mail://work/INBOX/4/attachments',
+      'mail://work/INBOX?limit=-1',
+      'mail://work/%E0%A4%A',
+    ]) {
+      assert.throws(() => parse(uri), (error: unknown) => error instanceof McpError && /Invalid mail resource URI/.test(error.message), uri);
+    }
+  });
+});
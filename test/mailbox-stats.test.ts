@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageStat } from '../src/services/mail-service.js';
+import { summarizeMessages } from '../src/services/mailbox-stats.js';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function stat(uid: number, from: string, size: number, ageDays: number, extra: Partial<MessageStat> = {}): MessageStat {
+  return {
+    uid,
+    from,
+    to: ['me@example.com'],
+    subject: `Message ${uid}`,
+    date: new Date(NOW.getTime() - ageDays * DAY_MS),
+    size,
+    bodySize: size - 500,
+    flags: ['\\Seen'],
+    attachments: 0,
+    attachmentBytes: 0,
+    ...extra,
+  };
+}
+
+describe('summarizeMessages', () => {
+  const messages = [
+    stat(1, 'news@shop.example', 1000, 2, { flags: [] }),
+    stat(2, 'news@shop.example', 1200, 10, { flags: [] }),
+    stat(3, 'sales@shop.example', 900, 40),
+    stat(4, 'boss@work.example', 50000, 400, { fromName: 'Boss', flags: ['\\Seen', '\\Flagged'], attachments: 2, attachmentBytes: 45000 }),
+    stat(5, '', 700, 1000),
+  ];
+  const stats = summarizeMessages('INBOX', { total: 120, matched: 5, messages }, { top: 2, largest: 2, now: NOW });
+
+  it('counts messages, flags and bytes', () => {
+    assert.equal(stats.totalMessages, 120);
+    assert.equal(stats.examined, 5);
+    assert.equal(stats.truncated, false);
+    assert.equal(stats.unread, 2);
+    assert.equal(stats.flagged, 1);
+    assert.equal(stats.totalBytes, 53800);
+    assert.deepEqual(stats.attachments, { messages: 1, count: 2, bytes: 45000 });
+    assert.deepEqual([stats.oldest, stats.newest], [messages[4].date, messages[0].date]);
+  });
+
+  it('ranks senders and domains by count and by size', () => {
+    assert.deepEqual(stats.topSenders.byCount.map(sender => [sender.key, sender.count, sender.unread]), [
+      ['news@shop.example', 2, 2],
+      ['boss@work.example', 1, 0],
+    ]);
+    assert.deepEqual(stats.topSenders.byBytes.map(sender => sender.key), ['boss@work.example', 'news@shop.example']);
+    assert.deepEqual(stats.topDomains.byCount[0], { key: 'shop.example', count: 3, bytes: 3100, unread: 2 });
+  });
+
+  it('puts messages into age buckets', () => {
+    assert.deepEqual(
+      stats.ageHistogram.map(bucket => [bucket.label, bucket.count]),
+      [['under 1 week', 1], ['1-4 weeks', 1], ['1-3 months', 1], ['3-12 months', 0], ['1-2 years', 1], ['over 2 years', 1]]
+    );
+  });
+
+  it('lists the largest messages with the sender name', () => {
+    assert.deepEqual(stats.largest.map(message => [message.uid, message.from]), [
+      [4, 'Boss <boss@work.example>'],
+      [2, 'news@shop.example'],
+    ]);
+  });
+
+  it('reports a sample smaller than the match as truncated', () => {
+    const partial = summarizeMessages('INBOX', { total: 120, matched: 80, messages }, { now: NOW });
+    assert.equal(partial.truncated, true);
+  });
+
+  it('handles an empty mailbox', () => {
+    const empty = summarizeMessages('Archive', { total: 0, matched: 0, messages: [] }, { now: NOW });
+    assert.equal(empty.oldest, undefined);
+    assert.deepEqual(empty.topSenders, { byCount: [], byBytes: [] });
+    assert.ok(empty.ageHistogram.every(bucket => bucket.count === 0));
+  });
+});
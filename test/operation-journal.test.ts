@@ -0,0 +1,107 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { JournalOperation, OperationJournal, isUndoable } from '../src/services/operation-journal.js';
+
+const message = (uid: number) => ({ uid, messageId: `<${uid}@example.com>`, flags: [] });
+
+describe('OperationJournal', () => {
+  let root: string;
+  let count = 0;
+  const file = () => path.join(root, `account-${++count}`, 'operations.json');
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'mail-journal-'));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('lists operations newest first and keeps them across restarts', async () => {
+    const journalFile = file();
+    const journal = new OperationJournal(journalFile);
+    const move = await journal.record({ type: 'move', mailbox: 'INBOX', destination: 'Archive', messages: [message(1)] });
+    const flags = await journal.record({ type: 'flags', mailbox: 'INBOX', flags: ['\\Seen'], action: 'add', messages: [message(2)] });
+
+    assert.match(move.id, /^[0-9a-f]{8}$/);
+    assert.deepEqual((await journal.list()).map(operation => operation.id), [flags.id, move.id]);
+    assert.deepEqual((await journal.list(1)).map(operation => operation.id), [flags.id]);
+
+    const reopened = new OperationJournal(journalFile);
+    assert.deepEqual(await reopened.get(move.id), move);
+    assert.deepEqual(await readdir(path.dirname(journalFile)), ['operations.json']);
+  });
+
+  it('keeps every entry when operations are recorded at once', async () => {
+    const journalFile = file();
+    const journal = new OperationJournal(journalFile);
+    await Promise.all([1, 2, 3, 4, 5].map(uid => journal.record({ type: 'move', mailbox: 'INBOX', destination: 'Archive', messages: [message(uid)] })));
+
+    const stored = await new OperationJournal(journalFile).list();
+    assert.deepEqual(stored.map(operation => operation.messages[0].uid), [5, 4, 3, 2, 1]);
+  });
+
+  it('drops the oldest operations beyond 500', async () => {
+    const journal = new OperationJournal(file());
+    for (let uid = 1; uid <= 502; uid++) {
+      await journal.record({ type: 'flags', mailbox: 'INBOX', flags: ['\\Flagged'], action: 'add', messages: [message(uid)] });
+    }
+
+    const operations = await journal.list();
+    assert.equal(operations.length, 500);
+    assert.equal(operations[0].messages[0].uid, 502);
+    assert.equal(operations[499].messages[0].uid, 3);
+  });
+
+  it('marks an operation as undone, which makes it final', async () => {
+    const journalFile = file();
+    const journal = new OperationJournal(journalFile);
+    const operation = await journal.record({ type: 'delete', mailbox: 'INBOX', destination: 'Trash', messages: [message(1)] });
+    assert.ok(isUndoable(operation));
+
+    await journal.markUndone(operation.id);
+    const stored = await new OperationJournal(journalFile).get(operation.id);
+    assert.ok(stored?.undoneAt);
+    assert.ok(!isUndoable(stored!));
+  });
+
+  it('refuses to overwrite a journal it cannot read', async () => {
+    const journalFile = file();
+    await new OperationJournal(journalFile).record({ type: 'move', mailbox: 'INBOX', destination: 'A', messages: [message(1)] });
+    await writeFile(journalFile, '{ not json');
+
+    const journal = new OperationJournal(journalFile);
+    await assert.rejects(journal.list(), /Cannot read operations journal/);
+    await assert.rejects(journal.record({ type: 'move', mailbox: 'INBOX', destination: 'A', messages: [message(2)] }), /Cannot read/);
+  });
+});
+
+describe('isUndoable', () => {
+  const operation = (extra: Partial<JournalOperation>): JournalOperation => ({
+    id: 'op',
+    type: 'move',
+    timestamp: '2024-05-01T00:00:00.000Z',
+    mailbox: 'INBOX',
+    destination: 'Archive',
+    messages: [message(1), message(2)],
+    ...extra,
+  });
+
+  it('allows moves, flag changes and deletes to Trash', () => {
+    assert.ok(isUndoable(operation({})));
+    assert.ok(isUndoable(operation({ type: 'flags', destination: undefined, flags: ['\\Seen'], action: 'add' })));
+    assert.ok(isUndoable(operation({ type: 'delete', destination: 'Trash' })));
+  });
+
+  it('refuses expunged deletes', () => {
+    assert.ok(!isUndoable(operation({ type: 'delete', destination: undefined })));
+  });
+
+  it('refuses a move only when no message can be found again', () => {
+    assert.ok(isUndoable(operation({ unrestorable: [2] })));
+    assert.ok(!isUndoable(operation({ unrestorable: [1, 2] })));
+  });
+});
@@ -0,0 +1,167 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { EmailSummary, MailService, SearchCriteria } from '../src/services/mail-service.js';
+import { MailRule, RulesEngine } from '../src/services/rules-service.js';
+import { TOOL_INPUT_SCHEMAS } from '../src/tools/input-schemas.js';
+
+function email(uid: number, from: string): EmailSummary {
+  return { uid, subject: `Message ${uid}`, from, to: 'me@example.com', date: new Date('2024-05-01T00:00:00Z'), flags: [] };
+}
+
+// INBOX holds a GitHub notification, a newsletter and a personal email
+function fakeMailService() {
+  const inbox = [email(1, 'notifications@github.com'), email(2, 'news@shop.example'), email(3, 'friend@example.com')];
+  const listIds: Record<number, string> = { 1: '<repo.github.com>', 2: '<weekly.shop.example>' };
+  const searches: SearchCriteria[] = [];
+  const calls: string[] = [];
+
+  const mailService = {
+    searchEmails: async (criteria: SearchCriteria) => {
+      searches.push(criteria);
+      return inbox.filter(message => !criteria.from || message.from.includes(criteria.from));
+    },
+    fetchHeaders: async (_mailbox: string, uids: number[]) =>
+      new Map(uids.map(uid => [uid, listIds[uid] ? { 'list-id': listIds[uid] } : {}])),
+    addFlags: async (mailbox: string, uids: number[], flags: string[]) => {
+      calls.push(`flag ${mailbox} ${uids.join(',')} ${flags.join(' ')}`);
+    },
+    moveEmails: async (mailbox: string, uids: number[], destination: string) => {
+      calls.push(`move ${mailbox} ${uids.join(',')} ${destination}`);
+    },
+    deleteEmails: async (mailbox: string, uids: number[], options: { trashMailbox?: string }) => {
+      calls.push(`delete ${mailbox} ${uids.join(',')} ${options.trashMailbox ?? '(account trash)'}`);
+    },
+  } as unknown as MailService;
+
+  return { mailService, searches, calls };
+}
+
+const rule = (conditions: unknown, actions: unknown = [{ type: 'delete' }]) =>
+  ({ name: 'test', conditions, actions }) as MailRule;
+
+describe('RulesEngine.validateRule', () => {
+  const engine = new RulesEngine(fakeMailService().mailService, '/nonexistent/mail-rules.json');
+
+  it('accepts a complete rule', () => {
+    engine.validateRule(rule(
+      { from: 'github', unreadOnly: true, sinceDays: 7, headers: { 'List-Id': 'repo\\.github' } },
+      [{ type: 'flag', flags: ['$Label1'] }, { type: 'move', destination: 'GitHub' }]
+    ));
+  });
+
+  it('rejects conditions that would match every email', () => {
+    for (const conditions of [{}, { unreadOnly: false }, { headers: {} }]) {
+      assert.throws(() => engine.validateRule(rule(conditions)), { code: 'INVALID_ARGUMENT', message: /at least one condition/ });
+    }
+  });
+
+  it('rejects unknown condition keys', () => {
+    assert.throws(() => engine.validateRule(rule({ form: 'x' })), { message: /unknown condition "form"/ });
+  });
+
+  it('rejects mistyped condition values', () => {
+    const cases: Array<[unknown, RegExp]> = [
+      [{ from: '' }, /"from" must be a non-empty string/],
+      [{ subject: 42 }, /"subject" must be a non-empty string/],
+      [{ unreadOnly: 'yes' }, /"unreadOnly" must be true or false/],
+      [{ sinceDays: 1.5 }, /"sinceDays" must be a positive whole number/],
+      [{ beforeDays: '7' }, /"beforeDays" must be a positive whole number/],
+      [{ headers: ['List-Id'] }, /"headers" must map header names/],
+      [{ headers: { 'List-Id': 1 } }, /header "List-Id" must map to a regular expression/],
+      [{ headers: { 'List-Id': '(' } }, /invalid regex for header "List-Id"/],
+      [['from'], /"conditions" object is required/],
+    ];
+    for (const [conditions, message] of cases) {
+      assert.throws(() => engine.validateRule(rule(conditions)), { message }, JSON.stringify(conditions));
+    }
+  });
+
+  it('rejects bad actions', () => {
+    assert.throws(() => engine.validateRule(rule({ from: 'x' }, [])), /at least one action/);
+    assert.throws(() => engine.validateRule(rule({ from: 'x' }, [{ type: 'move' }])), /requires "destination"/);
+    assert.throws(() => engine.validateRule(rule({ from: 'x' }, [{ type: 'archive' }])), /unknown action type "archive"/);
+    assert.throws(
+      () => engine.validateRule(rule({ from: 'x' }, [{ type: 'delete' }, { type: 'move', destination: 'A' }])),
+      /only one move or delete/
+    );
+  });
+});
+
+describe('test_rule input', () => {
+  it('rejects unknown condition keys and bad actions', () => {
+    const parse = (value: unknown) => TOOL_INPUT_SCHEMAS.test_rule.safeParse({ rule: value }).success;
+    assert.ok(parse({ name: 'a', conditions: { from: 'x', sinceDays: '7' }, actions: [{ type: 'markSeen' }] }));
+    assert.ok(!parse({ name: 'a', conditions: { form: 'x' }, actions: [{ type: 'markSeen' }] }));
+    assert.ok(!parse({ name: 'a', conditions: { from: 'x' }, actions: [{ type: 'move' }] }));
+    assert.ok(!parse({ name: 'a', conditions: { from: 'x' } }));
+  });
+});
+
+describe('RulesEngine matching', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'mail-rules-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('searches with the conditions and filters by header regexes', async () => {
+    const { mailService, searches } = fakeMailService();
+    const engine = new RulesEngine(mailService, path.join(dir, 'none.json'));
+
+    assert.deepEqual(await engine.findMatches(rule({ from: 'github', unreadOnly: true })), [1]);
+    assert.deepEqual(searches, [{ from: 'github', unreadOnly: true, mailbox: 'INBOX' }]);
+    assert.deepEqual(await engine.findMatches(rule({ headers: { 'List-Id': 'shop\\.example' } })), [2]);
+  });
+
+  it('never searches with an invalid rule', async () => {
+    const { mailService, searches } = fakeMailService();
+    const engine = new RulesEngine(mailService, path.join(dir, 'none.json'));
+
+    await assert.rejects(engine.findMatches(rule({ form: 'github' })), { code: 'INVALID_ARGUMENT' });
+    assert.equal(searches.length, 0);
+  });
+
+  it('applies rules in order, skipping messages an earlier rule removed', async () => {
+    const file = path.join(dir, 'mail-rules.yaml');
+    await writeFile(file, [
+      'trashMailbox: Bin',
+      'rules:',
+      '  - name: lists',
+      '    conditions: { headers: { List-Id: "." } }',
+      '    actions: [{ type: markSeen }, { type: move, destination: Lists }]',
+      '  - name: shop',
+      '    conditions: { from: shop }',
+      '    actions: [{ type: delete }]',
+      '  - name: everyone',
+      '    enabled: false',
+      '    conditions: { from: example }',
+      '    actions: [{ type: delete }]',
+    ].join('\n'));
+    const { mailService, calls } = fakeMailService();
+    const engine = new RulesEngine(mailService, file);
+
+    const preview = await engine.applyRules();
+    assert.deepEqual(preview.map(result => [result.rule, result.uids, result.applied]), [['lists', [1, 2], false], ['shop', [], false]]);
+    assert.deepEqual(calls, []);
+
+    const applied = await engine.applyRules({ names: ['lists', 'everyone'], dryRun: false });
+    assert.deepEqual(applied.map(result => [result.rule, result.uids, result.applied]), [['lists', [1, 2], true], ['everyone', [3], true]]);
+    assert.deepEqual(calls, ['flag INBOX 1,2 \\Seen', 'move INBOX 1,2 Lists', 'delete INBOX 3 Bin']);
+  });
+
+  it('refuses a rules file with an unconditional rule', async () => {
+    const file = path.join(dir, 'mail-rules.json');
+    await writeFile(file, JSON.stringify({ rules: [{ name: 'oops', conditions: { form: 'x' }, actions: [{ type: 'delete' }] }] }));
+    const { mailService, calls } = fakeMailService();
+
+    await assert.rejects(new RulesEngine(mailService, file).applyRules({ dryRun: false }), /unknown condition "form"/);
+    assert.deepEqual(calls, []);
+  });
+});
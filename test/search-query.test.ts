@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchQueryError, mergeSearchCriteria, parseSearchQuery } from '../src/services/search-query.js';
+
+describe('parseSearchQuery', () => {
+  it('merges ANDed operators into one criteria object', () => {
+    assert.deepEqual(
+      parseSearchQuery('from:github is:unread older_than:2w larger:1.5M has:attachment'),
+      { from: 'github', unreadOnly: true, beforeDays: 14, larger: 1572864, hasAttachments: true }
+    );
+  });
+
+  it('treats bare words and quoted phrases as full-text terms', () => {
+    assert.deepEqual(parseSearchQuery('"release notes"'), { text: 'release notes' });
+    assert.deepEqual(parseSearchQuery('invoice "March 2024"'), { text: 'invoice', and: [{ text: 'March 2024' }] });
+  });
+
+  it('applies a key to every term of a group', () => {
+    assert.deepEqual(parseSearchQuery('subject:(release -draft)'), {
+      subject: 'release',
+      not: { subject: 'draft' },
+    });
+  });
+
+  it('binds OR tighter than the implicit AND', () => {
+    assert.deepEqual(parseSearchQuery('from:a OR from:b is:flagged'), {
+      or: [{ from: 'a' }, { from: 'b' }],
+      flagged: true,
+    });
+    assert.deepEqual(parseSearchQuery('{from:a from:b}'), parseSearchQuery('from:a OR from:b'));
+  });
+
+  it('negates terms and groups', () => {
+    assert.deepEqual(parseSearchQuery('-from:noreply'), { not: { from: 'noreply' } });
+    assert.deepEqual(parseSearchQuery('-(is:read OR is:flagged)'), {
+      not: { or: [{ flags: ['\\Seen'] }, { flagged: true }] },
+    });
+    assert.deepEqual(parseSearchQuery('-has:attachment'), { hasAttachments: false });
+  });
+
+  it('normalizes dates', () => {
+    assert.deepEqual(parseSearchQuery('after:2024/3/1 before:2024-04-15'), {
+      sinceDate: '2024-03-01',
+      beforeDate: '2024-04-15',
+    });
+  });
+
+  it('returns no criteria for a blank query', () => {
+    assert.deepEqual(parseSearchQuery('   '), {});
+  });
+
+  it('reports the position of invalid input', () => {
+    const cases: Array<[string, RegExp]> = [
+      ['from:a OR', /position 8: OR must be followed by a search term/],
+      ['(from:a', /position 1: missing closing "\)"/],
+      ['subject:"open', /position 9: unterminated quote/],
+      ['is:important', /position 1: unknown status "is:important"/],
+      ['larger:big', /position 1: invalid size "big"/],
+      ['after:2024-02-30', /position 1: invalid date "2024-02-30"/],
+      ['label:work', /position 1: unknown operator "label:"/],
+      ['from:', /position 1: missing value after "from:"/],
+    ];
+    for (const [query, message] of cases) {
+      assert.throws(() => parseSearchQuery(query), (error: unknown) => {
+        assert.ok(error instanceof SearchQueryError, query);
+        assert.equal(error.code, 'INVALID_ARGUMENT');
+        assert.match(error.message, message);
+        return true;
+      });
+    }
+  });
+
+  it('rejects has:attachment where it cannot be checked', () => {
+    assert.throws(() => parseSearchQuery('has:attachment OR from:a'), SearchQueryError);
+    assert.throws(() => parseSearchQuery('-(has:attachment from:a)'), SearchQueryError);
+  });
+
+  it('rejects contradicting has:attachment terms at the second one', () => {
+    assert.throws(
+      () => parseSearchQuery('has:attachment -has:attachment'),
+      { name: 'SearchQueryError', message: /position 16: has:attachment and -has:attachment cannot both apply/ }
+    );
+  });
+});
+
+describe('mergeSearchCriteria', () => {
+  it('moves conflicting fields into "and"', () => {
+    assert.deepEqual(
+      mergeSearchCriteria([{ from: 'a' }, { subject: 'b' }, { from: 'c' }, { subject: 'b' }]),
+      { from: 'a', subject: 'b', and: [{ from: 'c' }] }
+    );
+  });
+
+  it('rejects required and excluded attachments', () => {
+    assert.throws(
+      () => mergeSearchCriteria([{ hasAttachments: true }, { hasAttachments: false }]),
+      { code: 'INVALID_ARGUMENT' }
+    );
+  });
+
+  it('keeps hasAttachments at the top level when the rest of a group conflicts', () => {
+    assert.deepEqual(
+      mergeSearchCriteria([{ mailbox: 'INBOX', from: 'a' }, parseSearchQuery('from:b has:attachment')]),
+      { mailbox: 'INBOX', from: 'a', hasAttachments: true, and: [{ from: 'b' }] }
+    );
+  });
+
+  it('rejects unread together with the \\Seen flag', () => {
+    for (const items of [
+      [{ unreadOnly: true }, parseSearchQuery('is:read')],
+      [{ unreadOnly: true, from: 'a' }, parseSearchQuery('from:b is:read')],
+      [{ flags: ['seen'] }, { unreadOnly: true }],
+    ]) {
+      assert.throws(() => mergeSearchCriteria(items), { code: 'INVALID_ARGUMENT', message: /cannot both apply/ }, JSON.stringify(items));
+    }
+    assert.throws(() => parseSearchQuery('is:read is:unread'), { code: 'INVALID_ARGUMENT' });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EmailSummary } from '../src/services/mail-service.js';
+import { ThreadNode, buildThreads, countThreadMessages } from '../src/services/thread-service.js';
+
+function message(uid: number, day: number, headers: Partial<EmailSummary> = {}): EmailSummary {
+  return {
+    uid,
+    subject: `Message ${uid}`,
+    from: 'a@example.com',
+    to: 'b@example.com',
+    date: new Date(Date.UTC(2024, 0, day)),
+    flags: [],
+    ...headers,
+  };
+}
+
+// UIDs as nested arrays: [uid, [children...]]
+type Shape = [number, Shape[]];
+function shape(nodes: ThreadNode<EmailSummary>[]): Shape[] {
+  return nodes.map(node => [node.message.uid, shape(node.children)]);
+}
+
+describe('buildThreads', () => {
+  it('nests replies under In-Reply-To, oldest first', () => {
+    const threads = buildThreads([
+      message(3, 3, { messageId: '<c>', inReplyTo: '<a>' }),
+      message(1, 1, { messageId: '<a>' }),
+      message(2, 2, { messageId: '<b>', inReplyTo: '<a>' }),
+      message(4, 4, { messageId: '<d>', inReplyTo: '<b>' }),
+    ]);
+    assert.deepEqual(shape(threads), [[1, [[2, [[4, []]]], [3, []]]]]);
+    assert.equal(countThreadMessages(threads), 4);
+  });
+
+  it('falls back to the nearest known reference', () => {
+    const threads = buildThreads([
+      message(1, 1, { messageId: '<a>' }),
+      message(2, 2, { messageId: '<c>', inReplyTo: '<missing>', references: ['<a>', '<missing>'] }),
+    ]);
+    assert.deepEqual(shape(threads), [[1, [[2, []]]]]);
+  });
+
+  it('makes messages with unknown parents roots', () => {
+    const threads = buildThreads([
+      message(2, 2, { messageId: '<b>', inReplyTo: '<gone>' }),
+      message(1, 1),
+    ]);
+    assert.deepEqual(shape(threads), [[1, []], [2, []]]);
+  });
+
+  it('keeps the first copy of a Message-ID', () => {
+    const threads = buildThreads([
+      message(1, 1, { messageId: '<a>' }),
+      message(9, 1, { messageId: '<a>' }),
+    ]);
+    assert.deepEqual(shape(threads), [[1, []]]);
+  });
+
+  it('breaks reference cycles', () => {
+    const threads = buildThreads([
+      message(1, 1, { messageId: '<a>', inReplyTo: '<b>' }),
+      message(2, 2, { messageId: '<b>', inReplyTo: '<a>' }),
+      message(3, 3, { messageId: '<c>', inReplyTo: '<c>' }),
+    ]);
+    assert.equal(countThreadMessages(threads), 3);
+    assert.deepEqual(shape(threads), [[2, [[1, []]]], [3, []]]);
+  });
+});
@@ -0,0 +1,188 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { MailService } from '../src/services/mail-service.js';
+import { UnsubscribeService, parseListUnsubscribe, parseMailto } from '../src/services/unsubscribe-service.js';
+
+describe('parseListUnsubscribe', () => {
+  it('keeps http(s) and mailto URIs in order', () => {
+    assert.deepEqual(
+      parseListUnsubscribe('<mailto:leave@example.com?subject=unsubscribe>, <https://example.com/u?id=1>, <ftp://example.com/x>'),
+      { http: ['https://example.com/u?id=1'], mailto: ['mailto:leave@example.com?subject=unsubscribe'] }
+    );
+  });
+
+  it('removes whitespace folded into a URI', () => {
+    assert.deepEqual(parseListUnsubscribe('< https://example.com/\r\n  unsubscribe >').http, ['https://example.com/unsubscribe']);
+  });
+
+  it('returns nothing for a missing header', () => {
+    assert.deepEqual(parseListUnsubscribe(undefined), { http: [], mailto: [] });
+  });
+});
+
+describe('parseMailto', () => {
+  it('reads recipients, subject and body', () => {
+    assert.deepEqual(parseMailto('mailto:a@example.com,b@example.com?subject=Stop%20it&body=remove%20me&to=c@example.com'), {
+      to: ['a@example.com', 'b@example.com', 'c@example.com'],
+      subject: 'Stop it',
+      body: 'remove me',
+    });
+  });
+
+  it('keeps a literal plus sign', () => {
+    assert.deepEqual(parseMailto('mailto:list+leave@example.com?subject=a+b'), {
+      to: ['list+leave@example.com'],
+      subject: 'a+b',
+      body: undefined,
+    });
+  });
+});
+
+interface Request {
+  url?: string;
+  contentType?: string;
+  body: string;
+}
+
+describe('UnsubscribeService one-click', () => {
+  const requests: Request[] = [];
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, contentType: req.headers['content-type'], body });
+        switch (req.url) {
+          case '/redirect':
+            res.writeHead(302, { Location: '/target' }).end();
+            break;
+          case '/rejected':
+            res.writeHead(410).end();
+            break;
+          case '/slow':
+            setTimeout(() => res.writeHead(200).end(), 1000);
+            break;
+          default:
+            res.writeHead(200).end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // A mail service holding one newsletter whose one-click URL is `path`
+  function fakeMailService(path: string, calls: string[] = [], failFollowUp = false): MailService {
+    return {
+      searchEmails: async () => {
+        calls.push('search');
+        return [{
+          uid: 7,
+          subject: 'Weekly news',
+          from: 'News <news@example.com>',
+          to: 'me@example.com',
+          date: new Date('2024-05-01T00:00:00Z'),
+          flags: [],
+        }];
+      },
+      fetchHeaders: async () => new Map([[7, {
+        'list-id': 'News <news.example.com>',
+        'list-unsubscribe': `<${base}${path}>`,
+        'list-unsubscribe-post': 'List-Unsubscribe=One-Click',
+      }]]),
+      deleteEmails: async (mailbox: string, uids: number[], options: { trashMailbox?: string }) => {
+        calls.push(`delete ${mailbox} ${uids.join(',')}${options.trashMailbox ? ` to ${options.trashMailbox}` : ''}`);
+        if (failFollowUp) throw new Error('mailbox is read-only');
+        return 'op1';
+      },
+    } as unknown as MailService;
+  }
+
+  function service(path: string, options: { timeoutMs?: number; calls?: string[]; failFollowUp?: boolean } = {}) {
+    return new UnsubscribeService(fakeMailService(path, options.calls, options.failFollowUp), {
+      allowHttp: true,
+      timeoutMs: options.timeoutMs,
+    });
+  }
+
+  it('posts List-Unsubscribe=One-Click as a form', async () => {
+    requests.length = 0;
+    const result = await service('/ok').unsubscribe({ key: 'news.example.com', preview: false });
+
+    assert.equal(result.method, 'one-click');
+    assert.equal(result.performed, true);
+    assert.equal(result.status, 200);
+    assert.deepEqual(requests, [{ url: '/ok', contentType: 'application/x-www-form-urlencoded', body: 'List-Unsubscribe=One-Click' }]);
+  });
+
+  it('sends nothing in preview', async () => {
+    requests.length = 0;
+    const result = await service('/ok').unsubscribe({ key: 'news.example.com' });
+
+    assert.equal(result.performed, false);
+    assert.equal(requests.length, 0);
+  });
+
+  it('does not follow redirects', async () => {
+    requests.length = 0;
+    const result = await service('/redirect').unsubscribe({ uid: 7, preview: false });
+
+    assert.equal(result.status, 302);
+    assert.deepEqual(requests.map(request => request.url), ['/redirect']);
+  });
+
+  it('reports a 4xx response as a server error', async () => {
+    await assert.rejects(
+      service('/rejected').unsubscribe({ uid: 7, preview: false }),
+      { code: 'SERVER_ERROR', message: /HTTP 410/ }
+    );
+  });
+
+  it('gives up after the timeout', async () => {
+    await assert.rejects(
+      service('/slow', { timeoutMs: 100 }).unsubscribe({ uid: 7, preview: false }),
+      { code: 'CONNECTION_FAILED' }
+    );
+  });
+
+  it('refuses plain http unless allowed', async () => {
+    const result = await new UnsubscribeService(fakeMailService('/ok')).unsubscribe({ uid: 7 });
+    assert.equal(result.method, 'web');
+  });
+
+  it('reports a failed follow-up after the request went out', async () => {
+    const calls: string[] = [];
+    const result = await service('/ok', { calls, failFollowUp: true })
+      .unsubscribe({ uid: 7, preview: false, followUp: 'delete' });
+
+    assert.equal(result.performed, true);
+    assert.deepEqual(calls, ['search', 'search', 'delete INBOX 7']);
+    assert.deepEqual(result.followUp, { action: 'delete', uids: [7], destination: undefined, error: 'mailbox is read-only' });
+  });
+
+  it('previews a follow-up from the scan and reuses a recent listing', async () => {
+    const calls: string[] = [];
+    const unsubscribe = service('/ok', { calls });
+    await unsubscribe.findSubscriptions();
+
+    const result = await unsubscribe.unsubscribe({ key: 'news.example.com', followUp: 'delete' });
+    assert.deepEqual(result.followUp?.uids, [7]);
+    assert.deepEqual(calls, ['search']);
+  });
+
+  it('moves followed-up mail to the given trash mailbox', async () => {
+    const calls: string[] = [];
+    await service('/ok', { calls }).unsubscribe({ uid: 7, preview: false, followUp: 'delete', trashMailbox: 'Bin' });
+    assert.deepEqual(calls, ['search', 'search', 'delete INBOX 7 to Bin']);
+  });
+});